@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getBackends } from "@/lib/registry";
+
+/**
+ * This is a custom endpoint, not a qbittorrent proxy endpoint, that lists the backends registered on the server.
+ * @returns the backends, without their credentials
+ */
+export async function GET() {
+   const backends = getBackends().map(backend => ({
+      id: backend.id,
+      name: backend.name,
+      type: backend.type,
+      url: backend.url,
+      hasCredentials: !!backend.credentials,
+   }));
+   return NextResponse.json(backends, { status: 200 });
+}
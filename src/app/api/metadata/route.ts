@@ -1,201 +1,282 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import bencode from "bencode";
-import { createHash } from "crypto";
-import WebTorrent, { Torrent as WebTorrentTorrent } from "webtorrent";
-import { TorrentFileInfo, TorrentMetadata } from "@/lib/types";
+import type { Torrent as WebTorrentTorrent } from "webtorrent";
+import { cacheTorrent, getCachedTorrent, invalidateCachedTorrent, type CachedTorrent } from "@/lib/metadata-cache";
+import { isAllowedSource, isPrivateAllowed } from "@/lib/registry";
+import { ForbiddenUrlError, safeFetch, sanitizeMagnet } from "@/lib/safe-fetch";
+import { parseTorrentFile } from "@/lib/torrent-parser";
+import { MetadataEvent, MetadataProgress, TorrentMetadata } from "@/lib/types";
 
-interface WebTorrentTorrentExtended extends WebTorrentTorrent {
-   info: Record<string, any>;
-}
+const MAX_TORRENT_FILE_SIZE = 10 * 1024 * 1024; // HARD-CODED: far more than any sane .torrent file
+const MAGNET_TIMEOUT = 30000; // HARD-CODED
+const MAX_MAGNET_TIMEOUT = 300000; // HARD-CODED: for retrying the magnet links with few peers
+const MIN_MAGNET_TIMEOUT = 1000; // HARD-CODED
+const PROGRESS_INTERVAL = 1000; // HARD-CODED
+const METADATA_PIECE_LENGTH = 16384; // as per BEP 9
 
-// ——— Helper: Convert Uint8Array to UTF-8 string ———
-const uint8ArrayToUtf8 = (uint8Array: Uint8Array): string => new TextDecoder("utf-8").decode(uint8Array);
-
-// ——— Helper: Build v2 file tree (nested object) ———
-const buildV2FileTree = (tree: Record<string, any>, path: string[] = []): Record<string, any> => {
-   const result: Record<string, any> = {};
-   for (const [key, value] of Object.entries(tree)) {
-      const currentPath = [...path, key];
-      if (value[""] !== undefined) {
-         // Leaf: file
-         result[key] = {
-            length: value[""].length,
-            pieces: value[""].pieces ? value[""].pieces.length / 32 : 0,
-            path: currentPath,
-         };
-      } else {
-         // Directory
-         result[key] = buildV2FileTree(value, currentPath);
-      }
-   }
-   return result;
+// NOTE: The parts of WebTorrent's internals that tell how far a magnet link got, which its types leave out.
+type TorrentInternals = {
+   _peers?: Map<string, { source: string }>; // discovered
+   wires: Array<{ ut_metadata?: { _bitfield: { get(i: number): boolean }; _metadataSize: number | null; _numPieces: number } }>;
 };
 
-// ——— Helper: Flatten v2 tree to file list ———
-const flattenV2FileTree = (tree: Record<string, any>, basePath: string[] = []): Array<{ path: string[]; length: number }> => {
-   let files: Array<{ path: string[]; length: number }> = [];
-   for (const [name, node] of Object.entries(tree)) {
-      const currentPath = [...basePath, name];
-      if (node.length !== undefined) {
-         files.push({ path: currentPath, length: node.length });
-      } else {
-         files = files.concat(flattenV2FileTree(node, currentPath));
+type FoundMetadata = { metadata: TorrentMetadata; from: "disk" | "memory" | "source" };
+
+type MagnetOptions = {
+   onProgress?: (progress: MetadataProgress) => void;
+   signal?: AbortSignal; // to give up on the magnet link, eg when the client went away
+   timeout?: number; // ms
+};
+
+/**
+ * Downloads a .torrent file, within the metadata policy and MAX_TORRENT_FILE_SIZE.
+ * @param {string} url - URL to .torrent file
+ * @returns {Promise<Buffer>} The .torrent file's contents
+ */
+const fetchTorrentFile = async (url: string): Promise<Buffer> => {
+   const response = await safeFetch(url, {
+      signal: AbortSignal.timeout(15000), // 15s timeout
+   }, isPrivateAllowed);
+
+   if (!response.ok) throw new Error(`HTTP ${response.status}: Failed to fetch .torrent file`);
+   if (Number(response.headers.get("Content-Length")) > MAX_TORRENT_FILE_SIZE) throw new Error(`${url} is too big`);
+
+   // NOTE: Count the bytes as they come too, since the Content-Length may well be missing or wrong.
+   const chunks: Uint8Array[] = [];
+   let size = 0;
+   const reader = response.body!.getReader();
+   for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > MAX_TORRENT_FILE_SIZE) {
+         await reader.cancel();
+         throw new Error(`${url} is too big`);
       }
+      chunks.push(chunk.value);
    }
-   return files;
+   return Buffer.concat(chunks);
 };
 
-// ——— Helper: Build v1-style file tree ———
-const buildV1FileTree = (files: TorrentFileInfo[]): Record<string, any> => {
-   const tree: Record<string, any> = {};
-   for (const file of files) {
-      let current: Record<string, any> = tree;
-      for (let i = 0; i < file.path.length - 1; i++) {
-         const dir = file.path[i];
-         current[dir] = current[dir] || {};
-         current = current[dir];
+/**
+ * Works out how far resolving a magnet link got, from WebTorrent's internals since it has no events for the metadata download.
+ * @param {WebTorrentTorrent} torrent - that's being resolved
+ * @param {number} started - when, as a timestamp
+ * @param {number} timeout - ms
+ * @returns {MetadataProgress} The peers discovered and connected, and the metadata received
+ */
+const getMagnetProgress = (torrent: WebTorrentTorrent, started: number, timeout: number): MetadataProgress => {
+   const { _peers: discovered, wires } = torrent as unknown as TorrentInternals;
+   const peers: Record<string, number> = {};
+   for (const peer of Array.from(discovered?.values() ?? [])) {
+      peers[peer.source] = (peers[peer.source] ?? 0) + 1;
+   }
+
+   // NOTE: Each peer's ut_metadata extension fetches the metadata in pieces of its own, so go by the one that got furthest.
+   let received = 0;
+   let size: number | null = null;
+   for (const wire of wires) {
+      const extension = wire.ut_metadata;
+      if (!extension?._metadataSize) continue;
+      let pieces = 0;
+      for (let i = 0; i < extension._numPieces; ++i) {
+         if (extension._bitfield.get(i)) ++pieces;
       }
-      current[file.path[file.path.length - 1]] = { length: file.length };
+      size = extension._metadataSize;
+      received = Math.max(received, Math.min(pieces * METADATA_PIECE_LENGTH, size));
    }
-   return tree;
+
+   return { connected: torrent.numPeers, elapsed: Date.now() - started, peers, received, size, timeout };
 };
 
 /**
- * Parses .torrent file or magnet link and returns full metadata with v1/v2 support using WebTorrent.
- * @param {string} url - URL to .torrent file or magnet link
- * @returns {Promise<TorrentMetadata>} Metadata with v1/v2 hashes, files, size, etc.
+ * Resolves a magnet link to its .torrent file via DHT and the trackers, which is all that WebTorrent is used for.
+ * @param {string} uri - magnet link
+ * @param {MagnetOptions} options - how long to wait, what to report progress to, and what to give up on
+ * @returns {Promise<Buffer>} The .torrent file's contents
  */
-const getTorrentMetadata = async (url: string): Promise<TorrentMetadata> => {
+const resolveMagnet = async (uri: string, options: MagnetOptions = {}): Promise<Buffer> => {
+   const { onProgress, signal, timeout = MAGNET_TIMEOUT } = options;
+   const magnet = await sanitizeMagnet(uri, isPrivateAllowed);
+   signal?.throwIfAborted();
+   // NOTE: Import WebTorrent lazily since it starts up a whole engine, native modules and all, that only magnet links need.
+   const { default: WebTorrent } = await import("webtorrent");
+   signal?.throwIfAborted(); // NOTE: The importing takes a while the first time, which the client may not wait for.
    const client = new WebTorrent();
-   const source = url.startsWith("magnet:") ? "magnet" : "torrent";
-   let torrent: WebTorrentTorrentExtended;
+   let intervalId: NodeJS.Timeout | undefined;
+   let timeoutId: NodeJS.Timeout | undefined;
+   let onAbort: (() => void) | undefined;
+   const started = Date.now();
 
    try {
-      if (source === "magnet") {
-         torrent = await new Promise<WebTorrentTorrentExtended>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-               client.destroy();
-               reject(new Error("Magnet resolution timeout"));
-            }, 30000);
-
-            client.add(url, (t: WebTorrentTorrent) => {
-               clearTimeout(timeout);
-               resolve(t as WebTorrentTorrentExtended);
-            });
-
-            client.on("error", err => {
-               clearTimeout(timeout);
-               client.destroy();
-               reject(err);
-            });
-         });
-      } else { // torrent
-         const response = await fetch(url, {
-            signal: AbortSignal.timeout(15000), // 15s timeout
-         });
-
-         if (!response.ok) throw new Error(`HTTP ${response.status}: Failed to fetch .torrent file`);
-
-         const buffer = Buffer.from(await response.arrayBuffer());
-
-         torrent = await new Promise<WebTorrentTorrentExtended>((resolve, reject) => {
-            client.add(buffer, (t: WebTorrentTorrent) => {
-               resolve(t as WebTorrentTorrentExtended);
-            });
-
-            client.on("error", err => {
-               client.destroy();
-               reject(err);
-            });
-         });
-      }
-
-      // Extract metadata from torrent
-      const info = torrent.info;
-
-      if (!info) throw new Error('Missing "info" dictionary in torrent');
-
-      // Compute hashes
-      const v1Hash = createHash("sha1").update(bencode.encode(info)).digest("hex").toLowerCase();
-      const v2Hash =
-         info["meta version"] !== 2
-            ? null
-            : createHash("sha256")
-                 .update(bencode.encode({ ...info, pieces: Buffer.alloc(0) }))
-                 .digest("hex")
-                 .toLowerCase();
-
-      // Parse files
-      let files: TorrentFileInfo[] = [];
-      let fileTree: Record<string, any> = {};
-      let totalLength = 0;
-
-      if (info["file tree"]) { // v2 file tree
-         fileTree = buildV2FileTree(info["file tree"]);
-         const flatFiles = flattenV2FileTree(fileTree);
-         files = flatFiles.map(f => ({ path: f.path, length: f.length }));
-         totalLength = flatFiles.reduce((sum: number, f: TorrentFileInfo) => sum + f.length, 0);
-      } else if (info.files) { // Multi-file v1
-         files = info.files.map((f: any) => ({
-            path: f.path.map((p: any) => (p instanceof Uint8Array ? uint8ArrayToUtf8(p) : p.toString())),
-            length: f.length,
-         }));
-         totalLength = files.reduce((sum, f) => sum + f.length, 0);
-         fileTree = buildV1FileTree(files);
-      } else { // Single-file v1
-         const name = info.name instanceof Uint8Array ? uint8ArrayToUtf8(info.name) : info.name ? info.name.toString() : "Unknown";
-         files = [{ path: [name], length: info.length }];
-         totalLength = info.length;
-         fileTree = buildV1FileTree(files);
-      }
+      const torrent = await new Promise<WebTorrentTorrent>((resolve, reject) => {
+         timeoutId = setTimeout(() => reject(new Error(`Magnet resolution timeout after ${timeout / 1000}s`)), timeout);
+         onAbort = () => reject(signal!.reason);
+         signal?.addEventListener("abort", onAbort, { once: true });
 
-      const metadata: TorrentMetadata = {
-         source,
-         hash: v1Hash, // Default to v1 for compatibility.
-         v1Hash,
-         v2Hash,
-         name: torrent.name,
-         pieceLength: info["piece length"],
-         pieces: info.pieces ? info.pieces.length / 20 : 0,
-         length: totalLength,
-         files,
-         fileTree,
-         private: !!info.private,
-         createdBy: torrent.createdBy,
-         creationDate: torrent.created ? torrent.created.toISOString() : null,
-         comment: torrent.comment,
-         announce: torrent.announce,
-      };
+         const added = client.add(magnet, (t: WebTorrentTorrent) => resolve(t));
+         if (onProgress) intervalId = setInterval(() => onProgress(getMagnetProgress(added, started, timeout)), PROGRESS_INTERVAL);
 
+         client.on("error", err => reject(err));
+      });
+      return Buffer.from(torrent.torrentFile);
+   } finally {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+      if (onAbort) signal?.removeEventListener("abort", onAbort);
       client.destroy();
-      return metadata;
-   } catch (error) {
-      client.destroy();
-      throw error;
    }
 };
 
+/**
+ * Gets a .torrent file, resolving magnet links and fetching URLs, and parses it.
+ * @param {string | Buffer} url - URL to .torrent file or magnet link, or an uploaded .torrent file's contents
+ * @param {MagnetOptions} options - for magnet links
+ * @returns {Promise<CachedTorrent>} Metadata with v1/v2 hashes, files, size, etc. along with the .torrent file's contents
+ */
+const getTorrentMetadata = async (url: string | Buffer, options?: MagnetOptions): Promise<CachedTorrent> => {
+   const source = typeof url === "string" && url.startsWith("magnet:") ? "magnet" : "torrent";
+   const torrentFile =
+      typeof url !== "string" ? url : source === "magnet" ? await resolveMagnet(url, options) : await fetchTorrentFile(url);
+   return { metadata: parseTorrentFile(torrentFile, source), torrentFile };
+};
+
+// ——— Lookups in progress, by URL, so that opening the same torrent twice doesn't resolve its magnet link twice ———
+const pending = new Map<string, Promise<FoundMetadata>>();
+
+/**
+ * Gets the metadata from the cache, else from the URL, and then caches it.
+ * @param {string} url - URL to .torrent file or magnet link
+ * @param {MagnetOptions} options - for magnet links
+ * @returns {Promise<FoundMetadata>} The metadata and where it came from
+ */
+const lookUpMetadata = async (url: string, options?: MagnetOptions): Promise<FoundMetadata> => {
+   const cached = await getCachedTorrent(url, async torrentFile => parseTorrentFile(torrentFile));
+   if (cached) return cached;
+   const torrent = await getTorrentMetadata(url, options);
+   await cacheTorrent(url, torrent);
+   return { ...torrent, from: "source" as const };
+};
+
+/**
+ * Like lookUpMetadata, but sharing the lookups in progress unless they report progress, which is to a client of their own.
+ * @param {string} url - URL to .torrent file or magnet link
+ * @param {MagnetOptions} options - for magnet links, whose lookup then isn't shared
+ * @returns {Promise<FoundMetadata>} The metadata and where it came from
+ */
+const getMetadata = (url: string, options?: MagnetOptions): Promise<FoundMetadata> => {
+   let lookup = options ? lookUpMetadata(url, options) : pending.get(url);
+   if (!lookup) {
+      lookup = lookUpMetadata(url).finally(() => pending.delete(url));
+      pending.set(url, lookup);
+   }
+   // NOTE: The cache goes by hash too, so the metadata may have come from another source.
+   const source = url.startsWith("magnet:") ? "magnet" : "torrent";
+   return lookup.then(({ metadata, from }) => ({ metadata: { ...metadata, source }, from }));
+};
+
+/**
+ * Streams the metadata as server-sent events, with the progress of resolving a magnet link until then, and gives up on it when
+ * the client goes away.
+ * @param {NextRequest} request
+ * @param {string} url - URL to .torrent file or magnet link
+ * @param {number} timeout - ms, for magnet links
+ * @returns {Response} The stream of MetadataEvent
+ */
+const streamMetadata = (request: NextRequest, url: string, timeout: number): Response => {
+   const stream = new ReadableStream({
+      async start(controller) {
+         const sendEvent = (event: MetadataEvent) => {
+            if (request.signal.aborted) return; // the client went away while resolving
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+         };
+
+         try {
+            const onProgress = (progress: MetadataProgress) => sendEvent({ type: "progress", data: progress });
+            const { metadata, from } = await getMetadata(url, { onProgress, signal: request.signal, timeout });
+            sendEvent({ type: "metadata", data: metadata, from });
+         } catch (e: any) {
+            if (!request.signal.aborted) {
+               const message = `Failed to get metadata for ${url}`;
+               console.error(`${message}:`, e);
+               sendEvent({ type: "error", message: e instanceof ForbiddenUrlError ? e.message : `${message}: ${e.message}` });
+            }
+         }
+         if (!request.signal.aborted) controller.close();
+      },
+   });
+   return new Response(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+   });
+};
 
 /**
  * This is a custom endpoint, not a qbittorrent proxy endpoint, that is necessary since qbittorrent doesn't provide an endpoint for querying a torrent's metadata.
- * @param request
- * @returns torrent metadata
+ * @param request - with the url, and with Accept: text/event-stream to stream the progress as well, within the timeout
+ * @returns torrent metadata, or a stream of MetadataEvent
  */
 export async function GET(request: NextRequest) {
    const { searchParams } = new URL(request.url);
-   const backendUrl = searchParams.get("backendUrl");
    const url = searchParams.get("url");
 
-   if (!backendUrl) return NextResponse.json({ error: "Missing parameter backendUrl" }, { status: 400 });
-   if (!url)        return NextResponse.json({ error: "Missing parameter hash" },       { status: 400 });
+   if (!url)                   return NextResponse.json({ error: "Missing parameter url" },           { status: 400 });
+   if (!isAllowedSource(url))  return NextResponse.json({ error: `Not allowed to fetch ${url}` },     { status: 403 });
+
+   // NOTE: EventSource asks for a stream, eg to show the progress of a magnet link, with a timeout in seconds to retry it with.
+   if (request.headers.get("Accept")?.includes("text/event-stream")) {
+      const requested = Number(searchParams.get("timeout")) * 1000 || MAGNET_TIMEOUT;
+      const timeout = Math.min(Math.max(requested, MIN_MAGNET_TIMEOUT), MAX_MAGNET_TIMEOUT);
+      return streamMetadata(request, url, timeout);
+   }
 
    try {
-      const metadata = await getTorrentMetadata(url);
-      return NextResponse.json(metadata, { status: 200 });
+      const { metadata, from } = await getMetadata(url);
+      const etag = `"${metadata.hash}"`;
+      // NOTE: Have the browser check every time, which the cache makes cheap, so that invalidating takes effect right away.
+      const headers = { "Cache-Control": "private, no-cache", "ETag": etag, "X-Metadata-Cache": from };
+      if (request.headers.get("If-None-Match") === etag) return new NextResponse(null, { status: 304, headers });
+      return NextResponse.json(metadata, { status: 200, headers });
    } catch (e) {
+      if (e instanceof ForbiddenUrlError) return NextResponse.json({ error: e.message }, { status: 403 });
       const message = `Failed to get metadata for ${url}`;
       console.error(`${message}:`, e);
       return NextResponse.json({ error: message }, { status: 502 });
    }
 }
+
+/**
+ * Like GET, but for a .torrent file uploaded from the browser rather than fetched from a URL.
+ * @param request - multipart form data with the file as torrents, like qbittorrent's torrents/add
+ * @returns torrent metadata
+ */
+export async function POST(request: NextRequest) {
+   const form = await request.formData().catch(() => null);
+   const file = form?.get("torrents");
+
+   if (!file || typeof file === "string") return NextResponse.json({ error: "Missing file torrents" },          { status: 400 });
+   if (file.size > MAX_TORRENT_FILE_SIZE)   return NextResponse.json({ error: `${file.name} is too big` },     { status: 413 });
+
+   try {
+      const torrent = await getTorrentMetadata(Buffer.from(await file.arrayBuffer()));
+      await cacheTorrent(null, torrent); // NOTE: By its hashes, eg for when the same torrent turns up in a feed.
+      return NextResponse.json(torrent.metadata, { status: 200 });
+   } catch (e) {
+      const message = `Failed to get metadata for ${file.name}`;
+      console.error(`${message}:`, e);
+      return NextResponse.json({ error: message }, { status: 400 }); // NOTE: There's nothing to fetch, so the file must be bad.
+   }
+}
+
+/**
+ * Forgets a torrent's metadata, in memory and on disk, eg when its .torrent file changed at the same URL.  Like the rest of the
+ * app, it is unauthenticated, but the worst it does is have the metadata fetched again.
+ * @param request - with the url, or else the hash, of the torrent
+ * @returns whether the metadata was cached
+ */
+export async function DELETE(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const source = searchParams.get("url") ?? searchParams.get("hash");
+
+   if (!source)                                  return NextResponse.json({ error: "Missing parameter url or hash" }, { status: 400 });
+   if (!(await invalidateCachedTorrent(source))) return NextResponse.json({ error: `${source} isn't cached` },        { status: 404 });
+
+   return NextResponse.json({ removed: true }, { status: 200 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+const get = (method: string) =>
+   GET(new NextRequest(`http://localhost:9002/api/mock/api/v2/${method}`), {
+      params: Promise.resolve({ method: method.split("/") }),
+   });
+
+describe("GET /api/mock/api/v2/[...method]", () => {
+   beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      delete (globalThis as any).torrentViewRegistry;
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+   });
+
+   it("serves the mock in demo mode", async () => {
+      // NOTE: There's no backends.json in the working directory.
+      vi.stubEnv("TORRENTVIEW_BACKENDS", undefined);
+      vi.stubEnv("TORRENTVIEW_CONFIG", undefined);
+      const response = await get("app/version");
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("v5.0.0-mock");
+   });
+
+   it("isn't found once backends are configured", async () => {
+      vi.stubEnv("TORRENTVIEW_BACKENDS", JSON.stringify({ backends: [{ id: "home", url: "http://localhost:8080" }] }));
+      const response = await get("app/version");
+      expect(response.status).toBe(404);
+   });
+});
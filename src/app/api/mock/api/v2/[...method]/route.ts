@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { handleMockRequest } from "@/lib/mock";
+import { isDemo } from "@/lib/registry";
+
+type Context = { params: Promise<{ method: string[] }> };
+
+/**
+ * The origin that the mock is served from, so that the URLs it hands out point back at it.
+ */
+const getOrigin = (request: NextRequest) => {
+   const url = new URL(request.url);
+   return `${url.origin}${url.pathname.substring(0, url.pathname.indexOf("/api/v2/"))}`;
+};
+
+/**
+ * Serves the mock of the qbittorrent Web API, only in demo mode so that it doesn't sit alongside the configured backends.
+ */
+export async function GET(request: NextRequest, context: Context) {
+   if (!isDemo()) return new Response("Not Found", { status: 404 });
+   const { method } = await context.params;
+   return handleMockRequest(method.join("/"), new URL(request.url).searchParams, getOrigin(request));
+}
+
+export async function POST(request: NextRequest, context: Context) {
+   if (!isDemo()) return new Response("Not Found", { status: 404 });
+   const { method } = await context.params;
+   const form = request.headers.get("content-type")?.startsWith("multipart/form-data")
+      ? await request.formData()
+      : new URLSearchParams(await request.text());
+   return handleMockRequest(method.join("/"), form, getOrigin(request));
+}
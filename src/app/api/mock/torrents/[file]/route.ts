@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { getMockTorrentFile } from "@/lib/mock";
+import { isDemo } from "@/lib/registry";
+
+type Context = { params: Promise<{ file: string }> };
+
+/**
+ * Serves the .torrent files that the mock backend's RSS articles link to, only in demo mode like the mock itself.
+ */
+export async function GET(request: NextRequest, context: Context) {
+   if (!isDemo()) return new Response("Not Found", { status: 404 });
+   const { file } = await context.params;
+   const buffer = getMockTorrentFile(decodeURIComponent(file).replace(/\.torrent$/, ""));
+
+   if (!buffer) return new Response("Not Found", { status: 404 });
+
+   return new Response(buffer, { headers: { "Content-Type": "application/x-bittorrent" } });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdapter } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+
+export async function POST(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+
+   const body = await request.json();
+
+   // NOTE: Deluge only has a password.
+   if (!body.username && !body.password) return NextResponse.json({ error: "Missing username and password" }, { status: 400 });
+
+   try {
+      await getAdapter(backend).login(body.username, body.password ?? "");
+   } catch (e: any) {
+      console.error(`Failed to log into ${backend.name}:`, e);
+      return NextResponse.json({ error: e.message || `Failed to log into ${backend.name}` }, { status: 401 });
+   }
+
+   return new NextResponse(); // empty, but successful, response on success
+}
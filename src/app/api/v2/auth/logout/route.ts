@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdapter } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+
+export async function POST(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+
+   const adapter = getAdapter(backend);
+   try {
+      await adapter.logout();
+   } catch (e) {
+      // no-op: the local session is forgotten regardless, eg when the backend is unreachable
+   }
+
+   // Fall back to the configured credentials, if any.
+   if (backend.credentials) adapter.configure(backend.credentials);
+
+   return new NextResponse(); // empty, but successful, response on success
+}
@@ -1,62 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
+import { QBittorrentClient } from "@/lib/qbittorrent";
+import { getBackend, rememberArticleUrls } from "@/lib/registry";
+import type { RssFeed } from "@/lib/qbittorrent-types";
+import { formatSize, getBytes, getResolution, getSeries, getSize } from "@/lib/torrents";
 import type { Torrent } from "@/lib/types";
+import { hasRss } from "@/lib/utils";
 
 const regexDate = /\d{4}(?:[-./\s]?\d{2}){2}/;
-const regexResolution = /(\d{3,4})p/i;
-const regexSeries = /(S\d{1,2}(E\d{1,2})?|\d{4}(?:[-./\s]?\d{2}){2})(.*complete)?/i;
-const regexSize = /\b\d+(?:\.\d+)?\s*(?:KiB|MiB|GiB|TiB)/;
 const regexWhitespace = /\s{2,}/g;
 
-const formatSize = (size: number): string => {
-   if (size > 1099511627776) {
-      return `${(size / 1099511627776).toFixed(2)} TiB`;
-   } else if (size > 1073741824) {
-      return `${(size / 1073741824).toFixed(2)} GiB`;
-   } else if (size > 1048576) {
-      return `${(size / 1048576).toFixed(2)} MiB`;
-   } else if (size > 1024) {
-      return `${(size / 1024).toFixed(2)} KiB`;
-   }
-   return `${size} B`;
-};
-
-const getBytes = (size: string): number | null => {
-   const multiplier =
-      size.indexOf("GiB") != -1
-         ? 1073741824
-         : size.indexOf("MiB") != -1
-           ? 1048576
-           : size.indexOf("KiB") != -1
-             ? 1024
-             : size.indexOf("TiB") != -1
-               ? 1099511627776
-               : 1;
-   return Math.ceil(parseFloat(size) * multiplier);
-};
-
-const getResolution = (name: string): number | null => {
-   const matched = name.match(regexResolution);
-   return matched ? parseInt(matched[1], 10) : null;
-};
-
-const getSeries = (name: string): string | null => {
-   const matched = name.match(regexSeries);
-   return matched ? matched[1] : null;
-};
-
-const getSize = (name: string): string => {
-   const matched = name.match(regexSize);
-   return matched ? matched[0] : "?";
-};
+const HEARTBEAT_INTERVAL = 15000; // HARD-CODED
 
 export async function GET(request: NextRequest) {
    const { searchParams } = new URL(request.url);
-   const backendUrl = searchParams.get("backendUrl");
+   const backend = getBackend(searchParams.get("backend"));
+
+   const failed = !backend
+      ? "Missing or unknown backend parameter"
+      : !hasRss(backend)
+        ? `${backend.name} doesn't have an RSS reader`
+        : null;
 
-   if (!backendUrl) {
+   if (!backend || failed) {
       const stream = new ReadableStream({
          start(controller) {
-            const message = `data: ${JSON.stringify({ type: "error", message: "Missing backendUrl parameter" })}\n\n`;
+            // NOTE: Fatal, as opposed to the errors of polling the backend, so that the client doesn't reconnect.
+            const message = `data: ${JSON.stringify({ type: "error", message: failed, fatal: true })}\n\n`;
             controller.enqueue(new TextEncoder().encode(message));
             controller.close();
          },
@@ -66,29 +35,29 @@ export async function GET(request: NextRequest) {
       });
    }
 
-   const urlRSS = `${backendUrl}/api/v2/rss/items?withData=true`;
+   const client = new QBittorrentClient(backend.url);
    let intervalId: string | number | NodeJS.Timeout | undefined;
+   let heartbeatId: string | number | NodeJS.Timeout | undefined;
    const stream = new ReadableStream({
       async start(controller) {
          const sendEvent = (data: object) => {
+            if (request.signal.aborted) return; // the client went away while a fetch was in flight
             const message = `data: ${JSON.stringify(data)}\n\n`;
             controller.enqueue(new TextEncoder().encode(message));
          };
 
          const fetchRSS = async () => {
             try {
-               const response = await fetch(urlRSS, { headers: { "Content-Type": "application/json" } });
-
-               if (!response.ok) throw new Error(`Failed to fetch ${urlRSS}: ${response.status}`);
-
-               const rss = await response.json();
+               const rss = await client.rss.items(true);
                const feeds = Object.keys(rss);
                const torrents: Torrent[] = [];
+               const urls: string[] = [];
                for (let i = 0, n = feeds.length; i < n; ++i) {
                   const feed = feeds[i];
-                  const articles = rss[feed].articles;
+                  const articles = (rss[feed] as RssFeed).articles ?? [];
                   for (let j = 0, m = articles.length; j < m; ++j) {
                      const article = articles[j];
+                     urls.push(article.torrentURL);
                      if (article.isRead) continue;
 
                      const title = article.title;
@@ -96,16 +65,17 @@ export async function GET(request: NextRequest) {
                      const resolution = getResolution(title);
                      const name =
                         series && resolution && regexDate.test(title)
-                           ? title.substring(0, title.indexOf(resolution))
+                           ? title.substring(0, title.indexOf(String(resolution)))
                            : series
                              ? title.substring(0, title.indexOf(series) + series.length)
                              : resolution
-                               ? title.substring(0, title.lastIndexOf(resolution))
+                               ? title.substring(0, title.lastIndexOf(String(resolution)))
                                : title;
-                     const size = article.contentLength ? formatSize(article.contentLength) : getSize(title);
+                     const size = article.contentLength ? formatSize(+article.contentLength) : getSize(title);
                      const bytes = article.contentLength ? +article.contentLength : getBytes(size);
                      const torrent: Torrent = {
                         added_on: Math.floor(new Date(article.date).getTime() / 1000),
+                        article: article,
                         bytes: bytes,
                         category: series ? "TV" : resolution ? "Movie" : "Other",
                         dlspeed: 0,
@@ -128,6 +98,7 @@ export async function GET(request: NextRequest) {
                      torrents.push(torrent);
                   }
                }
+               rememberArticleUrls(backend.id, urls); // NOTE: /api/metadata only fetches URLs that were actually produced.
                sendEvent({ type: "torrents", data: torrents });
                sendEvent({ type: "status", message: "connected" });
             } catch (error: any) {
@@ -140,15 +111,19 @@ export async function GET(request: NextRequest) {
          await fetchRSS();
          // Set up polling every 7 minutes in conjunction with the 15 minute refresh cycle in qbittorrent.
          intervalId = setInterval(fetchRSS, 7 * 1000 * 60); // HARD-CODED
+         // Send heartbeats in between so that the client can tell a quiet stream from a dead one.
+         heartbeatId = setInterval(() => sendEvent({ type: "heartbeat" }), HEARTBEAT_INTERVAL);
 
          // Handle client disconnect.
          request.signal.addEventListener("abort", () => {
             clearInterval(intervalId);
+            clearInterval(heartbeatId);
             controller.close();
          });
       },
       cancel() {
          clearInterval(intervalId);
+         clearInterval(heartbeatId);
       },
    });
 
@@ -163,24 +138,19 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
    const { searchParams } = new URL(request.url);
-   const backendUrl = searchParams.get("backendUrl");
+   const backend = getBackend(searchParams.get("backend"));
 
-   if (!backendUrl) return NextResponse.json({ error: "Missing backendUrl parameter" }, { status: 400 });
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+   if (!hasRss(backend)) return NextResponse.json({ error: `${backend.name} doesn't have an RSS reader` }, { status: 400 });
 
    const body = await request.json();
-   const feed = encodeURIComponent(body.feed);
-   const id = encodeURIComponent(body.id);
-   const url = `${backendUrl}/api/v2/rss/markAsRead`;
+   const client = new QBittorrentClient(backend.url);
 
    try {
-      const formData = new FormData();
-      formData.append("itemPath", feed);
-      formData.append("articleId", id);
-      const fetched = await fetch(url, { body: formData, method: "POST", });
-      if ( !fetched.ok ) throw new Error( "");
-   } catch (e) {
+      await client.rss.markAsRead(encodeURIComponent(body.feed), encodeURIComponent(body.id));
+   } catch (e: any) {
       console.error(`Failed to mark ${body.feed}.${body.id} as read:`, e);
-      return NextResponse.json({ error: `Failed to POST ${body.feed}.${body.id} to ${url}` }, { status: 500 });
+      return NextResponse.json({ error: `Failed to mark ${body.feed}.${body.id} as read: ${e.message}` }, { status: 500 });
    }
 
    return new NextResponse(); // empty, but successful, response on success
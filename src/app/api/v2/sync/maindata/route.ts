@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { getAdapter } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+
+/**
+ * Streams the torrents that exist in the backend, polling it via its adapter, eg /api/v2/sync/maindata for qbittorrent.
+ * @param request
+ * @returns an event stream of the full torrent list whenever it changes
+ */
+export async function GET(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+
+   if (!backend) {
+      const stream = new ReadableStream({
+         start(controller) {
+            // NOTE: Fatal, as opposed to the errors of polling the backend, so that the client doesn't reconnect.
+            const event = { type: "error", message: "Missing or unknown backend parameter", fatal: true };
+            const message = `data: ${JSON.stringify(event)}\n\n`;
+            controller.enqueue(new TextEncoder().encode(message));
+            controller.close();
+         },
+      });
+      return new Response(stream, {
+         headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+   }
+
+   const sync = getAdapter(backend).createSync();
+   let intervalId: string | number | NodeJS.Timeout | undefined;
+   const stream = new ReadableStream({
+      async start(controller) {
+         const sendEvent = (data: object) => {
+            if (request.signal.aborted) return; // the client went away while a poll was in flight
+            const message = `data: ${JSON.stringify(data)}\n\n`;
+            controller.enqueue(new TextEncoder().encode(message));
+         };
+
+         let isFetching = false;
+         const fetchTorrents = async () => {
+            if (isFetching) return; // the previous poll is still in flight
+            isFetching = true;
+            try {
+               const torrents = await sync.poll();
+               if (torrents) sendEvent({ type: "torrents", data: torrents });
+               sendEvent({ type: "status", message: "connected" });
+            } catch (error: any) {
+               console.error(`Error fetching the torrents of ${backend.name}:`, error);
+               sync.reset(); // NOTE: Ask for a full update next time since the incremental state may be stale.
+               sendEvent({ type: "error", message: error.message || "Failed to fetch torrent data" });
+               // Don't close the stream on fetch error to allow for retries.
+            } finally {
+               isFetching = false;
+            }
+         };
+
+         await fetchTorrents();
+         intervalId = setInterval(fetchTorrents, 2000); // HARD-CODED
+
+         // Handle client disconnect.
+         request.signal.addEventListener("abort", () => {
+            clearInterval(intervalId);
+            controller.close();
+         });
+      },
+      cancel() {
+         clearInterval(intervalId);
+      },
+   });
+
+   return new Response(stream, {
+      headers: {
+         "Content-Type": "text/event-stream",
+         "Cache-Control": "no-cache",
+         "Connection": "keep-alive",
+      },
+   });
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getAdapter, type BackendAdapter } from "@/lib/adapters";
+import { TransmissionError } from "@/lib/transmission";
+import { POST } from "./route";
+
+vi.mock("@/lib/adapters", async importOriginal => ({ ...(await importOriginal<object>()), getAdapter: vi.fn() }));
+
+const post = (action: string, body: object) =>
+   POST(new NextRequest("http://localhost/api/v2/torrents/action?backend=tr", { method: "POST", body: JSON.stringify(body) }), {
+      params: Promise.resolve({ action }),
+   });
+
+describe("POST /api/v2/torrents/[action]", () => {
+   beforeEach(() => {
+      vi.stubEnv("TORRENTVIEW_BACKENDS", JSON.stringify({ backends: [{ id: "tr", type: "transmission", url: "http://tr" }] }));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      delete (globalThis as any).torrentViewRegistry;
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+   });
+
+   it("runs the action on the backend", async () => {
+      const stop = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(getAdapter).mockReturnValue({ stop } as unknown as BackendAdapter);
+      const response = await post("stop", { hashes: ["abc"] });
+      expect(response.status).toBe(200);
+      expect(stop).toHaveBeenCalledWith(["abc"]);
+   });
+
+   it("fails with a 500 when the backend rejects the action with a 200", async () => {
+      const error = new TransmissionError("torrent-stop failed: no such torrent", "torrent-stop", 200);
+      vi.mocked(getAdapter).mockReturnValue({ stop: vi.fn().mockRejectedValue(error) } as unknown as BackendAdapter);
+      const response = await post("stop", { hashes: ["abc"] });
+      expect(response.status).toBe(500);
+      expect(await response.json()).toMatchObject({ error: "torrent-stop failed: no such torrent" });
+   });
+
+   it("passes on the backend's error status", async () => {
+      const error = new TransmissionError("Unauthorized", "torrent-remove", 401);
+      vi.mocked(getAdapter).mockReturnValue({ delete: vi.fn().mockRejectedValue(error) } as unknown as BackendAdapter);
+      const response = await post("delete", { hashes: ["abc"], deleteFiles: true });
+      expect(response.status).toBe(401);
+   });
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdapter, getErrorStatus, type BackendAdapter } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+import type { TorrentAction } from "@/lib/types";
+
+type Context = { params: Promise<{ action: string }> };
+
+const actions: Record<TorrentAction, (adapter: BackendAdapter, hashes: string[], deleteFiles: boolean) => Promise<void>> = {
+   bottomPrio: (adapter, hashes) => adapter.queueBottom(hashes),
+   decreasePrio: (adapter, hashes) => adapter.queueDown(hashes),
+   delete: (adapter, hashes, deleteFiles) => adapter.delete(hashes, deleteFiles),
+   increasePrio: (adapter, hashes) => adapter.queueUp(hashes),
+   reannounce: (adapter, hashes) => adapter.reannounce(hashes),
+   recheck: (adapter, hashes) => adapter.recheck(hashes),
+   setForceStart: (adapter, hashes) => adapter.forceStart(hashes),
+   start: (adapter, hashes) => adapter.start(hashes),
+   stop: (adapter, hashes) => adapter.stop(hashes),
+   topPrio: (adapter, hashes) => adapter.queueTop(hashes),
+};
+
+/**
+ * Mirrors qbittorrent's torrents/stop, torrents/start, etc for whichever client the backend is.
+ * @param request - with a JSON body of { hashes: string[], deleteFiles?: boolean }
+ * @param context
+ * @returns an empty response on success
+ */
+export async function POST(request: NextRequest, context: Context) {
+   const { action } = await context.params;
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+   if (!Object.hasOwn(actions, action)) return NextResponse.json({ error: `Unknown action ${action}` }, { status: 404 });
+
+   const body = await request.json();
+   const hashes: string[] = body.hashes;
+
+   if (!Array.isArray(hashes) || !hashes.length) return NextResponse.json({ error: "Missing hashes" }, { status: 400 });
+
+   try {
+      await actions[action as TorrentAction](getAdapter(backend), hashes, !!body.deleteFiles);
+   } catch (e: any) {
+      const failed = `Failed to ${action} ${hashes.length} torrent(s) on ${backend.name}`;
+      console.error(`${failed}:`, e);
+      return NextResponse.json({ error: e.message, message: failed }, { status: getErrorStatus(e) });
+   }
+
+   return new NextResponse(); // empty, but successful, response on success
+}
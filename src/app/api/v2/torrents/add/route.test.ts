@@ -0,0 +1,81 @@
+import { readFileSync } from "fs";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getAdapter, type BackendAdapter } from "@/lib/adapters";
+import { parseTorrentFile } from "@/lib/torrent-parser";
+import type { TorrentMetadata } from "@/lib/types";
+import { POST } from "./route";
+
+vi.mock("@/lib/adapters", async importOriginal => ({ ...(await importOriginal<object>()), getAdapter: vi.fn() }));
+
+const readMetadata = (name: string) =>
+   parseTorrentFile(readFileSync(new URL(`../../../../../lib/__fixtures__/${name}.torrent`, import.meta.url)));
+
+const post = (metadata: TorrentMetadata, mergeTrackers = false) => {
+   const torrent = { hash: `magnet:?xt=urn:btih:${metadata.hash}`, name: metadata.name, metadata };
+   const data = { selectedFiles: metadata.files.filter(file => !file.padding).map(file => file.path.join("/")), mergeTrackers };
+   const init = { method: "POST", body: JSON.stringify({ torrent, data }) };
+   return POST(new NextRequest("http://localhost/api/v2/torrents/add?backend=qb", init));
+};
+
+describe("POST /api/v2/torrents/add, for a torrent that the backend has already", () => {
+   let adapter: {
+      addTorrent: ReturnType<typeof vi.fn>;
+      addTrackers: ReturnType<typeof vi.fn>;
+      findTorrent: ReturnType<typeof vi.fn>;
+   };
+
+   beforeEach(() => {
+      vi.stubEnv("TORRENTVIEW_BACKENDS", JSON.stringify({ backends: [{ id: "qb", url: "http://qb" }] }));
+      adapter = { addTorrent: vi.fn(), addTrackers: vi.fn().mockResolvedValue(undefined), findTorrent: vi.fn() };
+      vi.mocked(getAdapter).mockReturnValue(adapter as unknown as BackendAdapter);
+   });
+
+   afterEach(() => {
+      delete (globalThis as any).torrentViewRegistry;
+      vi.unstubAllEnvs();
+   });
+
+   it("looks it up by its v1 and v2 hashes, as well as the v2 one truncated", async () => {
+      const metadata = readMetadata("hybrid");
+      adapter.findTorrent.mockResolvedValue(null);
+      adapter.addTorrent.mockResolvedValue(metadata.v1Hash);
+      expect((await post(metadata)).status).toBe(200);
+      expect(adapter.findTorrent).toHaveBeenCalledWith([metadata.v1Hash, metadata.v2Hash, metadata.v2Hash!.slice(0, 40)]);
+   });
+
+   it("finds a v2-only torrent by the v2 hash, and reports it with the trackers that it lacks", async () => {
+      const metadata = readMetadata("v2");
+      const hash = metadata.v2Hash!.slice(0, 40);
+      adapter.findTorrent.mockImplementation(async (hashes: string[]) =>
+         hashes.includes(hash) ? { hash, name: "Existing", trackers: [] } : null,
+      );
+      const response = await post(metadata);
+      expect(response.status).toBe(409);
+      expect(await response.json()).toMatchObject({
+         duplicate: { hash, name: "Existing", trackers: ["https://tracker.example.org/announce"] },
+      });
+      expect(adapter.addTorrent).not.toHaveBeenCalled();
+      expect(adapter.addTrackers).not.toHaveBeenCalled();
+   });
+
+   it("merges only the trackers that it lacks, if asked to", async () => {
+      const metadata = readMetadata("v1-multi");
+      const existing = { hash: metadata.v1Hash, name: "Existing", trackers: ["https://tracker.example.org/announce"] };
+      adapter.findTorrent.mockResolvedValue(existing);
+      const response = await post(metadata, true);
+      const merged = ["udp://backup.example.org:6969", "https://tier2.example.org/announce"];
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ hash: metadata.v1Hash, merged });
+      expect(adapter.addTrackers).toHaveBeenCalledExactlyOnceWith(metadata.v1Hash, merged);
+      expect(adapter.addTorrent).not.toHaveBeenCalled();
+   });
+
+   it("merges nothing when it has every tracker already", async () => {
+      const metadata = readMetadata("v1-multi");
+      adapter.findTorrent.mockResolvedValue({ hash: metadata.v1Hash, name: "Existing", trackers: metadata.announce });
+      const response = await post(metadata, true);
+      expect(await response.json()).toEqual({ hash: metadata.v1Hash, merged: [] });
+      expect(adapter.addTrackers).not.toHaveBeenCalled();
+   });
+});
@@ -1,11 +1,78 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { Torrent } from "@/lib/types";
+import { AddTorrentError, getAdapter, getErrorStatus, isBackendError, type FileRename } from "@/lib/adapters";
+import { getBackend, isAllowedSource } from "@/lib/registry";
+import { FilePriority } from "@/lib/qbittorrent-types";
+import type { DuplicateTorrent, Torrent, TorrentMetadata } from "@/lib/types";
+
+const PRIORITIES = new Set([FilePriority.Normal, FilePriority.High, FilePriority.Maximum]);
+
+/**
+ * @param path
+ * @returns the folders that the path is in, outermost first, eg a and a/b for a/b/c
+ */
+const getFolders = (path: string) => {
+   const parts = path.split("/");
+   return parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join("/"));
+};
+
+/**
+ * Checks the new names, from the download dialog, and orders the renames so that they apply one after the other.
+ * @param filePaths - the metadata's files
+ * @param names - the new names, by the path of the file or folder as per the metadata
+ * @returns the renames, or why they can't be done
+ */
+const getRenames = (filePaths: string[], names: Record<string, string>): FileRename[] | { error: string; status: number } => {
+   const folders = new Set(filePaths.flatMap(getFolders));
+   const files: FileRename[] = [];
+   const directories: FileRename[] = [];
+   for (const [oldPath, name] of Object.entries(names)) {
+      const isFolder = folders.has(oldPath);
+      if (!isFolder && !filePaths.includes(oldPath)) {
+         return { error: `Can't rename ${oldPath}, which isn't in the torrent`, status: 400 };
+      }
+      if (!name || name.includes("/") || name === "." || name === "..") {
+         return { error: `Can't rename ${oldPath} to ${name}`, status: 400 };
+      }
+
+      const newPath = [...getFolders(oldPath).slice(-1), name].join("/");
+      if (newPath !== oldPath) (isFolder ? directories : files).push({ isFolder, newPath, oldPath });
+   }
+
+   // NOTE: Check where everything ends up, since the backends would only fail part way through, with the torrent added.
+   const renamed = new Map(Object.entries(names));
+   const getNewPath = (path: string) =>
+      [...getFolders(path), path].map((prefix, i) => renamed.get(prefix) ?? path.split("/")[i]).join("/");
+   const newFiles = filePaths.map(getNewPath);
+   const newFolders = new Set(Array.from(folders, getNewPath));
+   const clash = newFiles.find((path, i) => newFiles.indexOf(path) !== i || newFolders.has(path));
+   if (clash) return { error: `Renaming would leave more than one ${clash}`, status: 409 };
+
+   // Files first, then the deepest folders first, so that none of the old paths have changed by the time they're renamed.
+   const depth = (rename: FileRename) => rename.oldPath.split("/").length;
+   return [...files, ...directories.sort((a, b) => depth(b) - depth(a))];
+};
+
+/**
+ * @param metadata
+ * @returns the torrent's info hashes, in lowercase, with the v2 one also truncated the way qbittorrent identifies v2-only torrents
+ */
+const getInfoHashes = (metadata: TorrentMetadata): string[] => {
+   const hashes = [metadata.hash, metadata.v1Hash, metadata.v2Hash, metadata.v2Hash?.slice(0, 40)];
+   return Array.from(new Set(hashes.filter((hash): hash is string => !!hash).map(hash => hash.toLowerCase())));
+};
+
+/**
+ * @param metadata
+ * @returns the hash that the backends go by, ie the v1 info hash for hybrid torrents, and the v2 one truncated for v2-only ones
+ */
+const getBackendHash = (metadata: TorrentMetadata): string | null =>
+   (metadata.v1Hash ?? metadata.v2Hash?.slice(0, 40) ?? metadata.hash)?.toLowerCase() ?? null;
 
 export async function POST(request: NextRequest) {
    const { searchParams } = new URL(request.url);
-   const backendUrl = searchParams.get("backendUrl");
+   const backend = getBackend(searchParams.get("backend"));
 
-   if (!backendUrl) return NextResponse.json({ error: "Missing backendUrl parameter" }, { status: 400 });
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
 
    const body = await request.json();
    const torrent = body.torrent as Torrent;
@@ -13,76 +80,83 @@ export async function POST(request: NextRequest) {
 
    if (!torrent.metadata) return NextResponse.json({ error: "Missing torrent.metadata" }, { status: 400 });
    if (!data.selectedFiles) return NextResponse.json({ error: "Missing data.selectedFiles" }, { status: 400 });
+   const priorities: Record<string, FilePriority> = data.filePriorities ?? {}; // by path, for the files that aren't normal
+   if (!Object.values(priorities).every(priority => PRIORITIES.has(priority)))
+      return NextResponse.json({ error: "Invalid data.filePriorities" }, { status: 400 });
+   const filePaths = torrent.metadata.files.map(f => f.path.join("/"));
+   const renames = getRenames(filePaths, data.renames ?? {});
+   if (!Array.isArray(renames)) return NextResponse.json({ error: renames.error }, { status: renames.status });
+   if (!isAllowedSource(torrent.hash)) return NextResponse.json({ error: `Not allowed to add ${torrent.hash}` }, { status: 403 });
 
-   let url = "";
    try {
-      // Add the torrent in a stopped state...
-      const formData = new FormData();
-      formData.append("urls", torrent.hash);
-      formData.append("savepath", data.savePath);
-      formData.append("stopped", String(true)); // NOTE: Always start stopped so that files can be cherry-picked.
-      formData.append("sequentialDownload", String(data.sequential));
-      formData.append("firstLastPiecePrio", String(data.firstLastPiecePrio));
-      formData.append("contentLayout", data.contentLayout);
-
-      url = `${backendUrl}/api/v2/torrents/add`;
-      const added = await fetch(url, { body: formData, method: "POST" });
-
-      if (!added.ok) throw new Error(`Failed to add torrent ${torrent.name}: ${await added.text()}`);
-
-      // ...then wait for the backend to get updated...
-      url = `${backendUrl}/api/v2/torrents/info?limit=1&sort=added_on&reverse=true`;
-      let retrys = 10; // HARD-CODED
-      do {
-         await new Promise(resolve => { setTimeout(resolve, 100) }); // HARD-CODED
-         const updated = await fetch(url);
-         try {
-            const entry = await updated.json();
-            if (entry!.length && entry[0].hash === torrent.metadata.hash) break;
-         } catch (e) {
-            // no-op: just wait for the backend to get updated
+      // Look for the torrent in the backend first, to merge the new trackers into it rather than add it again if asked to.
+      const adapter = getAdapter(backend);
+      const hashes = getInfoHashes(torrent.metadata);
+      const existing = hashes.length ? await adapter.findTorrent(hashes) : null;
+      if (existing) {
+         const known = new Set(existing.trackers);
+         const trackers = Array.from(new Set(torrent.metadata.announce ?? [])).filter(url => !known.has(url));
+         if (data.mergeTrackers) {
+            if (trackers.length) await adapter.addTrackers(existing.hash, trackers);
+            return NextResponse.json({ hash: existing.hash, merged: trackers }, { status: 200 });
          }
-      } while (--retrys);
-
-      if (!retrys) throw new Error(`Couldn't find ${torrent.name} in the backend after many retries!`);
+         const duplicate: DuplicateTorrent = { hash: existing.hash, name: existing.name, trackers };
+         const error = `${backend.name} already has ${torrent.name}, as ${existing.name}`;
+         return NextResponse.json({ error, duplicate }, { status: 409 });
+      }
 
-      // ...then cherry-pick the files...
-      if (data.selectedFiles.length < torrent.metadata.files.length) {
+      // Work out which files to leave out, by their index, since the backends take indices rather than paths.
+      // NOTE: The padding files can't be selected, nor need leaving out, but still count towards the indices.
+      const paddingFiles = torrent.metadata.files.flatMap((file, i) => (file.padding ? [i] : []));
+      const padding = new Set(paddingFiles);
+      const unwantedFiles: number[] = [];
+      if (data.selectedFiles.length < torrent.metadata.files.length - paddingFiles.length) {
          const selecteds = new Set(data.selectedFiles);
-         const joined = torrent.metadata.files.map(f => f.path.join("/"));
-         const files = new Set(joined);
+         const files = new Set(filePaths.filter((_, i) => !padding.has(i)));
          const difference = files.difference(selecteds);
-         const ids: number[] = [];
-         for (let i = 0, n = joined.length; i < n; ++i) {
-            const file = joined[i];
-            if (difference.has(file)) ids.push(i);
+         for (let i = 0, n = filePaths.length; i < n; ++i) {
+            const file = filePaths[i];
+            if (difference.has(file)) unwantedFiles.push(i);
          }
-         if (!ids.length) throw new Error(`Failed to exclude any files from torrent ${torrent.name}!`);
-
-         const formData = new FormData();
-         formData.append("hash", torrent.metadata.hash!);
-         formData.append("priority", String(0)); // HARD-CODED: Do not download.
-         formData.append("id", ids.join("|")); // HARD-CODED delimiter
-         url = `${backendUrl}/api/v2/torrents/filePrio`;
-         const filtered = await fetch(url, { body: formData, method: "POST" });
-
-         if (!filtered.ok) return NextResponse.json({ error: `Failed to GET to ${url}: ${await filtered.text()}` }, { status: filtered.status });
+         if (!unwantedFiles.length) throw new Error(`Failed to exclude any files from torrent ${torrent.name}!`);
       }
 
-      // ...and, finally, kick-off the download unless explicitly asked not to do so.
-      if (!data.paused) {
-         const formData = new FormData();
-         formData.append("hashes", torrent.metadata.hash!);
-         url = `${backendUrl}/api/v2/torrents/start`;
-         const started = await fetch(url, { body: formData, method: "POST" });
+      // Group the rest of the files by their priority, so that it takes a call per priority rather than per file.
+      const filePriorities = new Map<FilePriority, number[]>();
+      const unwanted = new Set(unwantedFiles);
+      torrent.metadata.files.forEach((file, i) => {
+         const priority = priorities[file.path.join("/")] ?? FilePriority.Normal;
+         if (priority === FilePriority.Normal || unwanted.has(i) || padding.has(i)) return;
+         filePriorities.set(priority, [...(filePriorities.get(priority) ?? []), i]);
+      });
 
-         if (!started.ok) throw new Error(`Failed to start torrent ${torrent.name}: ${await started.text()}`);
-      }
+      const hash = await adapter.addTorrent({
+         addToTop: !!data.addToTop,
+         category: data.category,
+         contentLayout: data.contentLayout,
+         file: torrent.file ? Buffer.from(torrent.file, "base64") : undefined,
+         filePaths,
+         filePriorities,
+         firstLastPiecePrio: data.firstLastPiecePrio,
+         hash: getBackendHash(torrent.metadata),
+         name: torrent.name,
+         paddingFiles,
+         paused: data.paused,
+         renames,
+         savePath: data.savePath,
+         sequential: data.sequential,
+         tags: data.tags ?? [],
+         unwantedFiles,
+         url: torrent.hash,
+      });
 
-      return NextResponse.json({ hash: torrent.metadata.hash }, { status: 200 });
-   } catch (e) {
-      const failed = `Failed on ${url}`;
+      return NextResponse.json({ hash }, { status: 200 });
+   } catch (e: any) {
+      const cause = e instanceof AddTorrentError ? e.cause : e;
+      const failed = isBackendError(cause) ? `Failed on ${backend.name} ${cause.endpoint}` : `Failed to add ${torrent.name}`;
       console.error(`${failed}:`, e);
-      return NextResponse.json({ error: e, message: failed }, { status: 500 });
+      const status = getErrorStatus(cause);
+      if (e instanceof AddTorrentError) return NextResponse.json({ ...e.toJSON(), message: failed }, { status });
+      return NextResponse.json({ error: e.message, message: failed }, { status });
    }
 }
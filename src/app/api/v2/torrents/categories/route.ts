@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdapter, getErrorStatus } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+
+/**
+ * Mirrors qbittorrent's torrents/categories for whichever client the backend is.
+ * @param request
+ * @returns the categories by name, each with its save path
+ */
+export async function GET(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+
+   try {
+      return NextResponse.json(await getAdapter(backend).getCategories(), { status: 200 });
+   } catch (e: any) {
+      const failed = `Failed to get the categories of ${backend.name}`;
+      console.error(`${failed}:`, e);
+      return NextResponse.json({ error: e.message, message: failed }, { status: getErrorStatus(e) });
+   }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdapter, getErrorStatus } from "@/lib/adapters";
+import { getBackend } from "@/lib/registry";
+
+/**
+ * Mirrors qbittorrent's torrents/pieceStates for whichever client the backend is.
+ * @param request - with the backend and hash parameters
+ * @returns the state of each piece, as per PieceState
+ */
+export async function GET(request: NextRequest) {
+   const { searchParams } = new URL(request.url);
+   const backend = getBackend(searchParams.get("backend"));
+   const hash = searchParams.get("hash");
+
+   if (!backend) return NextResponse.json({ error: "Missing or unknown backend parameter" }, { status: 400 });
+   if (!hash) return NextResponse.json({ error: "Missing parameter hash" }, { status: 400 });
+
+   try {
+      return NextResponse.json(await getAdapter(backend).getPieceStates(hash), { status: 200 });
+   } catch (e: any) {
+      const failed = `Failed to get the pieces of ${hash} on ${backend.name}`;
+      console.error(`${failed}:`, e);
+      return NextResponse.json({ error: e.message, message: failed }, { status: getErrorStatus(e) });
+   }
+}
@@ -2,18 +2,35 @@
 
 import { TorrentClient } from "@/components/torrent-client";
 import { useState, useEffect } from "react";
-import type { Torrent } from "@/lib/types";
+import type { Backend, BackendCredentials, Torrent } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
 
 export default function Home() {
-   const [backendUrl, setBackendUrl] = useState("");
+   const { toast } = useToast();
+   const [backends, setBackends] = useState<Backend[]>([]);
    const [torrents, setTorrents] = useState<Torrent[]>([]);
 
    useEffect(() => {
-      const storedUrl = localStorage.getItem("backendUrl");
-      if (storedUrl) {
-         setBackendUrl(storedUrl);
-      }
-   }, []);
+      const fetchBackends = async () => {
+         try {
+            const response = await fetch("/api/backends");
+            if (!response.ok) throw new Error(`Failed to fetch the backends: ${response.status}`);
+
+            const registered: Omit<Backend, "credentials">[] = await response.json();
+            const storedCredentials = localStorage.getItem("backendCredentials");
+            const credentials: Record<string, BackendCredentials> = storedCredentials ? JSON.parse(storedCredentials) : {};
+            setBackends(registered.map(backend => ({ ...backend, credentials: credentials[backend.id] ?? null })));
+         } catch (error: any) {
+            console.error("Failed to fetch the backends:", error);
+            toast({
+               variant: "destructive",
+               title: "Could not load the backends",
+               description: error.message,
+            });
+         }
+      };
+      fetchBackends();
+   }, [toast]);
 
    return (
       <div className="flex h-dvh flex-col bg-background font-body text-foreground">
@@ -22,10 +39,12 @@ export default function Home() {
                <h1 className="font-headline text-2xl font-bold text-primary">TorrentView</h1>
                {torrents.length > 0 && <span className="text-sm font-medium text-muted-foreground">({torrents.length})</span>}
             </div>
-            {backendUrl && <span className="font-mono text-sm text-muted-foreground">{backendUrl}</span>}
+            {backends.length > 0 && (
+               <span className="font-mono text-sm text-muted-foreground">{backends.map(backend => backend.name).join(", ")}</span>
+            )}
          </header>
          <main className="flex-1 overflow-y-auto">
-            <TorrentClient backendUrl={backendUrl} setBackendUrl={setBackendUrl} torrents={torrents} setTorrents={setTorrents} />
+            <TorrentClient backends={backends} setBackends={setBackends} torrents={torrents} setTorrents={setTorrents} />
          </main>
       </div>
    );
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Torrent, TorrentMetadata } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/utils";
+import { FileUp } from "lucide-react";
+
+type AddTorrentDialogProps = {
+   isOpen: boolean;
+   onClose: () => void;
+   onAdd: (torrents: Torrent[]) => void;
+};
+
+const TORRENT_FILE_TYPES = ".torrent,application/x-bittorrent";
+
+/**
+ * Makes a row, like a feed article's, for the DownloadOptionsDialog to add.
+ * @param name
+ * @param hash - the .torrent URL or magnet link, as per feed articles
+ * @returns the torrent, without its metadata
+ */
+const newTorrent = (name: string, hash: string): Torrent => ({
+   added_on: Math.floor(Date.now() / 1000),
+   bytes: null,
+   category: "Other",
+   dlspeed: 0,
+   eta: -1,
+   feed: "",
+   hash,
+   id: hash,
+   is_read: false,
+   is_series: false,
+   metadata: null,
+   name,
+   progress: 0,
+   ratio: 0,
+   resolution: null,
+   series: null,
+   size: "Unknown",
+   status: "available",
+   upspeed: 0,
+});
+
+/**
+ * @param text - magnet links and .torrent URLs, one per line
+ * @returns a torrent for each link, named after the magnet link's display name or the URL's file name
+ */
+export function getTorrentsFromLinks(text: string): Torrent[] {
+   const links = text
+      .split(/\s+/)
+      .map(link => link.trim())
+      .filter(link => link.startsWith("magnet:") || (/^https?:\/\//i.test(link) && URL.canParse(link)));
+   return Array.from(new Set(links), link => {
+      if (link.startsWith("magnet:")) {
+         const params = new URLSearchParams(link.slice(link.indexOf("?") + 1));
+         const btih = params.getAll("xt").find(xt => xt.startsWith("urn:btih:"));
+         return newTorrent(params.get("dn") || btih?.slice("urn:btih:".length) || link, link);
+      }
+      const fileName = decodeURIComponent(new URL(link).pathname.split("/").pop() ?? "");
+      return newTorrent(fileName.replace(/\.torrent$/i, "") || link, link);
+   });
+}
+
+/**
+ * Parses an uploaded .torrent file, via the same metadata pipeline as the feed articles.
+ * @param file
+ * @returns the torrent, with its metadata and the file to add, and a magnet link in lieu of a URL
+ */
+export async function getTorrentFromFile(file: File): Promise<Torrent> {
+   const form = new FormData();
+   form.append("torrents", file);
+   const response = await fetch("/api/metadata", { body: form, method: "POST" });
+   if (!response.ok) throw new Error((await response.json().catch(() => ({}))).error || `Failed to read ${file.name}`);
+   const metadata = (await response.json()) as TorrentMetadata;
+
+   const bytes = new Uint8Array(await file.arrayBuffer());
+   let binary = "";
+   for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000)); // NOTE: In chunks, to stay within the argument limit.
+   }
+
+   const name = metadata.name || file.name.replace(/\.torrent$/i, "");
+   // NOTE: v2 info hashes go in a multihash, as per BEP 52, with hybrid torrents having both.
+   const xts = [metadata.v1Hash && `xt=urn:btih:${metadata.v1Hash}`, metadata.v2Hash && `xt=urn:btmh:1220${metadata.v2Hash}`];
+   const magnet = `magnet:?${xts.filter(Boolean).join("&")}&dn=${encodeURIComponent(name)}`;
+   return {
+      ...newTorrent(name, magnet),
+      bytes: metadata.length,
+      file: btoa(binary),
+      metadata,
+      size: metadata.length != null ? formatBytes(metadata.length) : "Unknown",
+   };
+}
+
+/**
+ * Reads the .torrent files one after the other, toasting the ones that fail rather than giving up on the rest.
+ * @param files
+ * @param toast
+ * @returns the torrents that could be read
+ */
+export async function getTorrentsFromFiles(files: File[], toast: ReturnType<typeof useToast>["toast"]): Promise<Torrent[]> {
+   const torrents: Torrent[] = [];
+   for (const file of files) {
+      try {
+         torrents.push(await getTorrentFromFile(file));
+      } catch (error: any) {
+         console.error(`Failed to read ${file.name}:`, error);
+         toast({ variant: "destructive", title: `Failed to read ${file.name}`, description: error.message });
+      }
+   }
+   return torrents;
+}
+
+/**
+ * Asks for magnet links, .torrent URLs and .torrent files, to add them with the DownloadOptionsDialog like feed articles.
+ */
+export function AddTorrentDialog({ isOpen, onClose, onAdd }: AddTorrentDialogProps) {
+   const { toast } = useToast();
+   const [links, setLinks] = useState("");
+   const [files, setFiles] = useState<File[]>([]);
+   const [isReading, setIsReading] = useState(false);
+   const fileInputRef = useRef<HTMLInputElement>(null);
+
+   useEffect(() => {
+      if (!isOpen) return;
+      setLinks("");
+      setFiles([]);
+   }, [isOpen]);
+
+   const handleSubmit = async (event: React.FormEvent) => {
+      event.preventDefault();
+      const torrents = getTorrentsFromLinks(links);
+      if (links.trim() && !torrents.length) {
+         toast({ variant: "destructive", title: "Nothing to add", description: "Enter magnet links or http(s) URLs." });
+         return;
+      }
+
+      setIsReading(true);
+      try {
+         torrents.push(...(await getTorrentsFromFiles(files, toast)));
+      } finally {
+         setIsReading(false);
+      }
+      if (!torrents.length) return;
+      onClose();
+      onAdd(torrents);
+   };
+
+   return (
+      <Dialog open={isOpen} onOpenChange={open => !open && !isReading && onClose()}>
+         <DialogContent className="sm:max-w-[560px]">
+            <DialogHeader>
+               <DialogTitle>Add torrents</DialogTitle>
+               <DialogDescription>
+                  Paste magnet links or .torrent URLs, or pick .torrent files. You can also drop them anywhere on the page.
+               </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+               <div className="space-y-2">
+                  <Label htmlFor="add-torrent-links">Links, one per line</Label>
+                  <Textarea
+                     id="add-torrent-links"
+                     rows={4}
+                     placeholder="magnet:?xt=urn:btih:..."
+                     value={links}
+                     onChange={e => setLinks(e.target.value)}
+                  />
+               </div>
+               <div className="flex items-center gap-2">
+                  <input
+                     ref={fileInputRef}
+                     type="file"
+                     accept={TORRENT_FILE_TYPES}
+                     multiple
+                     className="hidden"
+                     onChange={e => setFiles(Array.from(e.target.files ?? []))}
+                  />
+                  <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                     <FileUp className="mr-2 h-4 w-4" />
+                     Choose files...
+                  </Button>
+                  <span className="truncate text-sm text-muted-foreground">
+                     {files.length === 1 ? files[0].name : files.length ? `${files.length} files` : "No files chosen"}
+                  </span>
+               </div>
+               <DialogFooter>
+                  <Button type="button" variant="outline" onClick={onClose} disabled={isReading}>
+                     Cancel
+                  </Button>
+                  <Button type="submit" disabled={isReading || (!links.trim() && !files.length)}>
+                     {isReading ? "Reading..." : "Next"}
+                  </Button>
+               </DialogFooter>
+            </form>
+         </DialogContent>
+      </Dialog>
+   );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Backend } from "@/lib/types";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+   Dialog,
+   DialogContent,
+   DialogDescription,
+   DialogFooter,
+   DialogHeader,
+   DialogTitle,
+   DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Settings } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type BackendSettingsDialogProps = {
+   backends: Backend[];
+   setBackends: (backends: Backend[]) => void;
+   isOpen: boolean;
+   onOpenChange: (isOpen: boolean) => void;
+};
+
+type LocalCredentials = {
+   username: string;
+   password: string;
+};
+
+export function BackendSettingsDialog({ backends, setBackends, isOpen, onOpenChange }: BackendSettingsDialogProps) {
+   const { toast } = useToast();
+   const [localCredentials, setLocalCredentials] = useState<Record<string, LocalCredentials>>({});
+
+   useEffect(() => {
+      if (isOpen) {
+         setLocalCredentials(
+            Object.fromEntries(
+               backends.map(backend => [
+                  backend.id,
+                  { username: backend.credentials?.username ?? "", password: backend.credentials?.password ?? "" },
+               ]),
+            ),
+         );
+      }
+   }, [backends, isOpen]);
+
+   const updateLocalCredentials = (id: string, changes: Partial<LocalCredentials>) => {
+      setLocalCredentials(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+   };
+
+   const handleSave = () => {
+      const updated = backends.map(backend => {
+         const local = localCredentials[backend.id];
+         const credentials = local?.username || local?.password ? { username: local.username, password: local.password } : null;
+         if (backend.credentials && !credentials) {
+            // Don't bother await'ing on it, just forget the session on the server.
+            fetch(`/api/v2/auth/logout?backend=${encodeURIComponent(backend.id)}`, { method: "POST" });
+         }
+         return { ...backend, credentials };
+      });
+
+      const stored = Object.fromEntries(
+         updated.filter(backend => backend.credentials).map(backend => [backend.id, backend.credentials]),
+      );
+      localStorage.setItem("backendCredentials", JSON.stringify(stored));
+      setBackends(updated);
+      onOpenChange(false);
+      toast({
+         title: "Settings Saved",
+         description: "Your backend settings have been updated.",
+      });
+   };
+
+   return (
+      <Dialog open={isOpen} onOpenChange={onOpenChange}>
+         <DialogTrigger asChild>
+            <Button variant="ghost" size="icon" aria-label="Settings">
+               <Settings className="h-5 w-5" />
+            </Button>
+         </DialogTrigger>
+         <DialogContent className="sm:max-w-[640px]">
+            <DialogHeader>
+               <DialogTitle>Backend Settings</DialogTitle>
+               <DialogDescription>
+                  The backends are registered on the server. Enter credentials for those that aren't configured there.
+               </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[60vh]">
+               <div className="space-y-4 py-4 pr-3">
+                  {backends.length === 0 && (
+                     <p className="text-sm text-muted-foreground">
+                        No backends are registered. Add them to backends.json on the server, as per backends.example.json.
+                     </p>
+                  )}
+                  {backends.map(backend => (
+                     <div key={backend.id} className="grid grid-cols-4 items-center gap-x-4 gap-y-2 rounded-md border p-3">
+                        <span className="text-right text-sm font-medium">{backend.name}</span>
+                        <span className="col-span-3 truncate font-mono text-sm text-muted-foreground">
+                           {backend.type}: {backend.url}
+                        </span>
+                        <Label htmlFor={`backend-username-${backend.id}`} className="text-right">
+                           Username
+                        </Label>
+                        <Input
+                           id={`backend-username-${backend.id}`}
+                           className="col-span-3"
+                           autoComplete="username"
+                           disabled={backend.type === "deluge"} // NOTE: The Deluge Web UI only has a password.
+                           value={localCredentials[backend.id]?.username ?? ""}
+                           onChange={e => updateLocalCredentials(backend.id, { username: e.target.value })}
+                           placeholder={
+                              backend.hasCredentials ? "Configured on the server" : "Leave empty to bypass authentication"
+                           }
+                        />
+                        <Label htmlFor={`backend-password-${backend.id}`} className="text-right">
+                           Password
+                        </Label>
+                        <Input
+                           id={`backend-password-${backend.id}`}
+                           type="password"
+                           className="col-span-3"
+                           autoComplete="current-password"
+                           value={localCredentials[backend.id]?.password ?? ""}
+                           onChange={e => updateLocalCredentials(backend.id, { password: e.target.value })}
+                        />
+                     </div>
+                  ))}
+               </div>
+            </ScrollArea>
+            <DialogFooter>
+               <Button type="submit" onClick={handleSave}>
+                  Save changes
+               </Button>
+            </DialogFooter>
+         </DialogContent>
+      </Dialog>
+   );
+}
@@ -0,0 +1,98 @@
+import type { Torrent, TorrentAction, TorrentView } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Eye, EyeOff, Link, Pause, Play, Trash2, X } from "lucide-react";
+
+type BulkActionBarProps = {
+   view: TorrentView;
+   torrents: Torrent[]; // the selected, and visible, rows
+   onDownload: () => void;
+   onMarkRead: () => void;
+   onMarkUnread: () => void;
+   onAction: (action: TorrentAction) => void;
+   onClear: () => void;
+};
+
+/**
+ * Gets a link to share for the torrent: the article's own URL for feed articles and a magnet link for transfers, by their v1
+ * hash and, where the backend reports it, their v2 hash as per BEP 52.
+ * @param view
+ * @param torrent
+ * @returns the link, or null for a v2-only transfer whose whole v2 hash the backend doesn't report, as its own hash is only the
+ * first 40 digits of it
+ */
+const getLink = (view: TorrentView, torrent: Torrent): string | null => {
+   if (view === "articles") return torrent.hash;
+   const topics: string[] = [];
+   if (torrent.infohash_v1 !== "") topics.push(`xt=urn:btih:${torrent.infohash_v1 || torrent.hash}`);
+   if (torrent.infohash_v2) topics.push(`xt=urn:btmh:1220${torrent.infohash_v2}`); // NOTE: 1220 is the multihash prefix of SHA-256.
+   return topics.length ? `magnet:?${topics.join("&")}&dn=${encodeURIComponent(torrent.name)}` : null;
+};
+
+export function BulkActionBar({ view, torrents, onDownload, onMarkRead, onMarkUnread, onAction, onClear }: BulkActionBarProps) {
+   const { toast } = useToast();
+
+   const handleCopyLinks = async () => {
+      try {
+         const links = torrents.map(torrent => getLink(view, torrent)).filter((link): link is string => !!link);
+         const skipped = torrents.length - links.length;
+         if (!links.length) throw new Error("The backend doesn't report the v2 hashes that the magnet links need.");
+         await navigator.clipboard.writeText(links.join("\n"));
+         toast({
+            title: `Copied ${links.length} links`,
+            description: skipped ? `Skipped ${skipped} v2-only transfers, whose v2 hash the backend doesn't report.` : undefined,
+         });
+      } catch (error: any) {
+         toast({
+            variant: "destructive",
+            title: "Failed to copy links",
+            description: error.message || "The clipboard isn't available.",
+         });
+      }
+   };
+
+   return (
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-card px-4 py-2 shadow-sm">
+         <span className="mr-2 text-sm font-medium">{torrents.length} selected</span>
+         {view === "articles" ? (
+            <>
+               <Button size="sm" onClick={onDownload}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download...
+               </Button>
+               <Button size="sm" variant="outline" onClick={onMarkRead}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  Mark read
+               </Button>
+               <Button size="sm" variant="outline" onClick={onMarkUnread}>
+                  <EyeOff className="mr-2 h-4 w-4" />
+                  Mark unread
+               </Button>
+            </>
+         ) : (
+            <>
+               <Button size="sm" variant="outline" onClick={() => onAction("stop")}>
+                  <Pause className="mr-2 h-4 w-4" />
+                  Pause
+               </Button>
+               <Button size="sm" variant="outline" onClick={() => onAction("start")}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Resume
+               </Button>
+               <Button size="sm" variant="outline" onClick={() => onAction("delete")}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete...
+               </Button>
+            </>
+         )}
+         <Button size="sm" variant="outline" onClick={handleCopyLinks}>
+            <Link className="mr-2 h-4 w-4" />
+            Copy links
+         </Button>
+         <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear} aria-label="Clear selection">
+            <X className="mr-2 h-4 w-4" />
+            Clear
+         </Button>
+      </div>
+   );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Backend, Torrent, TorrentMetadata } from "@/lib/types";
+import { getAddTorrentError } from "@/lib/utils";
+
+const formSchema = z.object({
+   backend: z.string().min(1, { message: "Backend is required." }),
+   savePath: z.string().min(1, { message: "Save path is required." }),
+   paused: z.boolean().default(false),
+   addToTop: z.boolean().default(false),
+   sequential: z.boolean().default(false),
+   firstLastPiecePrio: z.boolean().default(false),
+   contentLayout: z.enum(["Original", "Subfolder", "NoSubfolder"]).default("NoSubfolder"),
+});
+
+type BulkDownloadFormValues = z.infer<typeof formSchema>;
+
+type BulkDownloadDialogProps = {
+   backends: Backend[];
+   torrents: Torrent[];
+   isOpen: boolean;
+   onClose: () => void;
+};
+
+const checkboxes: Array<{ name: "paused" | "addToTop" | "sequential" | "firstLastPiecePrio"; label: string }> = [
+   { name: "paused", label: "Start torrents paused" },
+   { name: "addToTop", label: "Add to top of queue" },
+   { name: "sequential", label: "Download in sequential order" },
+   { name: "firstLastPiecePrio", label: "Download first and last pieces first" },
+];
+
+/**
+ * Adds several feed articles with the same options and all of their files, one after the other.
+ */
+export function BulkDownloadDialog({ backends, torrents, isOpen, onClose }: BulkDownloadDialogProps) {
+   const { toast } = useToast();
+   const [progress, setProgress] = React.useState<number | null>(null); // the number of torrents added so far, while adding
+
+   const form = useForm<BulkDownloadFormValues>({
+      resolver: zodResolver(formSchema),
+      defaultValues: {
+         backend: "",
+         savePath: "/home/archive/bittorrent",
+         paused: false,
+         addToTop: false,
+         sequential: false,
+         firstLastPiecePrio: false,
+         contentLayout: "NoSubfolder",
+      },
+   });
+
+   React.useEffect(() => {
+      if (isOpen) form.setValue("backend", torrents[0]?.backend ?? backends[0]?.id ?? "");
+   }, [isOpen, torrents, backends, form]);
+
+   const addTorrent = async (torrent: Torrent, data: BulkDownloadFormValues) => {
+      if (!torrent.metadata?.files) {
+         const response = await fetch(`/api/metadata?url=${encodeURIComponent(torrent.hash)}`);
+         if (!response.ok) throw new Error((await response.json()).error || `Failed to fetch the metadata of ${torrent.name}`);
+         torrent.metadata = (await response.json()) as TorrentMetadata; // NOTE: Quietly add metadata to torrent, as per DownloadOptionsDialog.
+      }
+
+      const response = await fetch(`/api/v2/torrents/add?backend=${encodeURIComponent(data.backend)}`, {
+         body: JSON.stringify({
+            torrent,
+            data: { ...data, selectedFiles: torrent.metadata!.files.map(file => file.path.join("/")) },
+         }),
+         headers: { "Content-Type": "application/json" },
+         method: "POST",
+      });
+      if (!response.ok) throw new Error(await getAddTorrentError(response));
+   };
+
+   const onSubmit = async (data: BulkDownloadFormValues) => {
+      const failures: string[] = [];
+      setProgress(0);
+      for (const torrent of torrents) {
+         try {
+            await addTorrent(torrent, data);
+         } catch (error: any) {
+            console.error(`Failed to add ${torrent.name}:`, error);
+            failures.push(`${torrent.name}: ${error.message}`);
+         }
+         setProgress(prev => (prev ?? 0) + 1);
+      }
+      setProgress(null);
+
+      const backend = backends.find(b => b.id === data.backend);
+      if (failures.length) {
+         toast({
+            variant: "destructive",
+            title: `Failed to add ${failures.length} of ${torrents.length} torrents`,
+            description: failures.join("\n"),
+         });
+      } else {
+         toast({
+            title: "Downloads started",
+            description: `Downloading ${torrents.length} torrents on ${backend?.name ?? data.backend}`,
+         });
+      }
+      onClose();
+   };
+
+   return (
+      <Dialog open={isOpen} onOpenChange={open => !open && progress === null && onClose()}>
+         <DialogContent className="sm:max-w-[480px]">
+            <DialogHeader>
+               <DialogTitle>Download {torrents.length} torrents</DialogTitle>
+               <DialogDescription>Every file of every torrent is downloaded with the same options.</DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                     {checkboxes.map(({ name, label }) => (
+                        <FormField
+                           key={name}
+                           control={form.control}
+                           name={name}
+                           render={({ field }) => (
+                              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                                 <FormControl>
+                                    <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                                 </FormControl>
+                                 <FormLabel className="font-normal">{label}</FormLabel>
+                              </FormItem>
+                           )}
+                        />
+                     ))}
+                  </div>
+
+                  <FormField
+                     control={form.control}
+                     name="backend"
+                     render={({ field }) => (
+                        <FormItem>
+                           <FormLabel>Backend</FormLabel>
+                           <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                 <SelectTrigger>
+                                    <SelectValue placeholder="Select backend" />
+                                 </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                 {backends.map(backend => (
+                                    <SelectItem key={backend.id} value={backend.id}>
+                                       {backend.name}
+                                    </SelectItem>
+                                 ))}
+                              </SelectContent>
+                           </Select>
+                        </FormItem>
+                     )}
+                  />
+
+                  <FormField
+                     control={form.control}
+                     name="savePath"
+                     render={({ field }) => (
+                        <FormItem>
+                           <FormLabel>Destination directory</FormLabel>
+                           <FormControl>
+                              <Input placeholder="/path/to/downloads" {...field} />
+                           </FormControl>
+                        </FormItem>
+                     )}
+                  />
+
+                  <FormField
+                     control={form.control}
+                     name="contentLayout"
+                     render={({ field }) => (
+                        <FormItem>
+                           <FormLabel>Content layout</FormLabel>
+                           <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                 <SelectTrigger>
+                                    <SelectValue placeholder="Select layout" />
+                                 </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                 <SelectItem value="Original">Original</SelectItem>
+                                 <SelectItem value="Subfolder">Create subfolder</SelectItem>
+                                 <SelectItem value="NoSubfolder">Don&apos;t create subfolder</SelectItem>
+                              </SelectContent>
+                           </Select>
+                        </FormItem>
+                     )}
+                  />
+
+                  <DialogFooter>
+                     <Button type="button" variant="outline" onClick={onClose} disabled={progress !== null}>
+                        Cancel
+                     </Button>
+                     <Button type="submit" disabled={progress !== null}>
+                        {progress === null ? "Download" : `Adding ${progress + 1} of ${torrents.length}...`}
+                     </Button>
+                  </DialogFooter>
+               </form>
+            </Form>
+         </DialogContent>
+      </Dialog>
+   );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Backend, Torrent } from "@/lib/types";
+import {
+   AlertDialog,
+   AlertDialogAction,
+   AlertDialogCancel,
+   AlertDialogContent,
+   AlertDialogDescription,
+   AlertDialogFooter,
+   AlertDialogHeader,
+   AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type DeleteTorrentsDialogProps = {
+   backends: Backend[];
+   torrents: Torrent[]; // empty when closed
+   onClose: () => void;
+   onConfirm: (torrents: Torrent[], deleteFiles: boolean) => void;
+};
+
+export function DeleteTorrentsDialog({ backends, torrents, onClose, onConfirm }: DeleteTorrentsDialogProps) {
+   const [isDeletingFiles, setIsDeletingFiles] = useState(false);
+   const isOpen = torrents.length > 0;
+
+   useEffect(() => {
+      if (isOpen) setIsDeletingFiles(false); // NOTE: Never default to deleting the files.
+   }, [isOpen]);
+
+   const backendNames = Array.from(
+      new Set(torrents.map(torrent => backends.find(b => b.id === torrent.backend)?.name ?? "the backend")),
+   );
+
+   return (
+      <AlertDialog open={isOpen} onOpenChange={open => !open && onClose()}>
+         <AlertDialogContent>
+            <AlertDialogHeader>
+               <AlertDialogTitle>
+                  {torrents.length === 1 ? "Delete torrent?" : `Delete ${torrents.length} torrents?`}
+               </AlertDialogTitle>
+               <AlertDialogDescription>
+                  {torrents.length === 1 ? <>&quot;{torrents[0].name}&quot;</> : "They"} will be removed from{" "}
+                  {backendNames.join(", ")}.
+               </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="flex items-center gap-2">
+               <Checkbox
+                  id="delete-files"
+                  checked={isDeletingFiles}
+                  onCheckedChange={checked => setIsDeletingFiles(checked === true)}
+               />
+               <Label htmlFor="delete-files">Also delete the downloaded files</Label>
+            </div>
+            <AlertDialogFooter>
+               <AlertDialogCancel>Cancel</AlertDialogCancel>
+               <AlertDialogAction
+                  className={cn(isDeletingFiles && "bg-destructive text-destructive-foreground hover:bg-destructive/90")}
+                  onClick={() => onConfirm(torrents, isDeletingFiles)}>
+                  Delete
+               </AlertDialogAction>
+            </AlertDialogFooter>
+         </AlertDialogContent>
+      </AlertDialog>
+   );
+}
@@ -5,8 +5,9 @@ import * as React from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { SubmitHandler, useForm } from "react-hook-form";
 import * as z from "zod";
-import { ChevronRight, Folder } from "lucide-react";
+import { ChevronRight, Folder, Pencil, Tag, TriangleAlert } from "lucide-react";
 
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
@@ -14,37 +15,58 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import type { Torrent, TorrentFile, TorrentFileInfo, TorrentMetadata } from "@/lib/types";
-import { formatBytes, cn } from "@/lib/utils";
+import type {
+   Backend,
+   DuplicateTorrent,
+   MetadataEvent,
+   MetadataProgress,
+   Torrent,
+   TorrentFile,
+   TorrentFileInfo,
+   TorrentMetadata,
+} from "@/lib/types";
+import { FilePriority, type Category } from "@/lib/qbittorrent-types";
+import { Badge } from "./ui/badge";
+import { formatBytes, cn, getAddTorrentError } from "@/lib/utils";
+import { Progress } from "./ui/progress";
 import { ScrollArea } from "./ui/scroll-area";
 import { Skeleton } from "./ui/skeleton";
 
 const formSchema = z.object({
+   backend: z.string().min(1, { message: "Backend is required." }),
    savePath: z.string().min(1, { message: "Save path is required." }),
    paused: z.boolean().default(false),
    addToTop: z.boolean().default(false),
    sequential: z.boolean().default(false),
    firstLastPiecePrio: z.boolean().default(false),
    contentLayout: z.enum(["Original", "Subfolder", "NoSubfolder"]).default("NoSubfolder"),
+   category: z.string().default(""),
+   tags: z.array(z.string()).default([]),
    selectedFiles: z.set(z.string()),
 });
 
 type DownloadOptionsFormValues = z.infer<typeof formSchema>;
 
+const MAGNET_TIMEOUT = 30; // HARD-CODED: s, as per /api/metadata
+const MAX_MAGNET_TIMEOUT = 300; // HARD-CODED: s, as per /api/metadata
+
 interface DownloadOptionsDialogProps {
-   backendUrl: string;
+   backends: Backend[];
    torrent: Torrent | null;
    isOpen: boolean;
    onClose: () => void;
 }
 
 const downloadDefaults: DownloadOptionsFormValues = {
+   backend: "",
    savePath: "/home/archive/bittorrent",
    paused: true,
    addToTop: false,
    sequential: false,
    firstLastPiecePrio: false,
    contentLayout: "NoSubfolder",
+   category: "",
+   tags: [],
    selectedFiles: new Set<string>(),
 };
 
@@ -56,6 +78,19 @@ type FileTreeNode = {
    isFile: boolean;
 };
 
+const priorityLabels: Partial<Record<FilePriority, string>> = {
+   [FilePriority.Normal]: "Normal",
+   [FilePriority.High]: "High",
+   [FilePriority.Maximum]: "Maximum",
+};
+
+/**
+ * @param node
+ * @returns the paths of the files under the node, or of the node itself if it is a file
+ */
+const getFilePaths = (node: FileTreeNode): string[] =>
+   node.isFile ? [node.path] : Array.from(node.children?.values() ?? []).flatMap(getFilePaths);
+
 const buildFileTree = (files: TorrentFileInfo[]): FileTreeNode => {
    const root: FileTreeNode = { name: "/", path: "/", size: 0, children: new Map(), isFile: false };
 
@@ -100,14 +135,27 @@ const FileTree = ({
    level = 0,
    selectedFiles,
    onSelectionChange,
+   filePriorities,
+   onPriorityChange,
+   renames,
+   onRename,
 }: {
    node: FileTreeNode;
    level?: number;
    selectedFiles: Set<string>;
    onSelectionChange: (path: string, selected: boolean) => void;
+   filePriorities: Map<string, FilePriority>;
+   onPriorityChange: (node: FileTreeNode, priority: FilePriority) => void;
+   renames: Map<string, string>;
+   onRename: (node: FileTreeNode, name: string) => boolean;
 }) => {
    const [isOpen, setIsOpen] = React.useState(level < 1);
+   const [draftName, setDraftName] = React.useState<string | null>(null); // while renaming
+   const name = renames.get(node.path) ?? node.name;
    const isSelected = selectedFiles.has(node.path);
+   // NOTE: Folders show their files' priority, if they all have the same one, and are blank otherwise.
+   const priorities = new Set(getFilePaths(node).map(path => filePriorities.get(path) ?? FilePriority.Normal));
+   const priority = priorities.size === 1 ? String(Array.from(priorities)[0]) : "";
 
    const handleCheckedChange = (checked: boolean) => {
       onSelectionChange(node.path, checked);
@@ -123,6 +171,10 @@ const FileTree = ({
                   level={level}
                   selectedFiles={selectedFiles}
                   onSelectionChange={onSelectionChange}
+                  filePriorities={filePriorities}
+                  onPriorityChange={onPriorityChange}
+                  renames={renames}
+                  onRename={onRename}
                />
             ))}
          </div>
@@ -143,11 +195,67 @@ const FileTree = ({
                   />
                )}
                {!isDirectory && <div className="mr-1 w-5 shrink-0" />}
-               <label htmlFor={`file-${node.path}`} className="flex flex-grow cursor-pointer items-center gap-1 overflow-hidden">
-                  {isDirectory && <Folder className="h-4 w-4 shrink-0 text-primary" />}
-                  <span className="truncate">{node.name}</span>
-               </label>
+               {draftName !== null ? (
+                  <div className="flex flex-grow items-center gap-1">
+                     {isDirectory && <Folder className="h-4 w-4 shrink-0 text-primary" />}
+                     <Input
+                        autoFocus
+                        className="h-7 text-sm"
+                        value={draftName}
+                        onChange={e => setDraftName(e.target.value)}
+                        onBlur={() => setDraftName(null)}
+                        onKeyDown={e => {
+                           if (e.key === "Escape") {
+                              e.preventDefault(); // NOTE: Don't close the dialog.
+                              e.stopPropagation();
+                              setDraftName(null);
+                           } else if (e.key === "Enter") {
+                              e.preventDefault(); // NOTE: Don't submit the form.
+                              if (onRename(node, draftName.trim())) setDraftName(null);
+                           }
+                        }}
+                        aria-label={`New name for ${node.name}`}
+                     />
+                  </div>
+               ) : (
+                  <label
+                     htmlFor={`file-${node.path}`}
+                     className="group flex flex-grow cursor-pointer items-center gap-1 overflow-hidden">
+                     {isDirectory && <Folder className="h-4 w-4 shrink-0 text-primary" />}
+                     <span className={cn("truncate", { "italic text-primary": name !== node.name })} title={node.path}>
+                        {name}
+                     </span>
+                     <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                        onClick={e => {
+                           e.preventDefault(); // NOTE: Don't toggle the checkbox.
+                           setDraftName(name);
+                        }}
+                        aria-label={`Rename ${node.name}`}
+                        title="Rename">
+                        <Pencil className="h-3 w-3" />
+                     </Button>
+                  </label>
+               )}
             </div>
+            <Select
+               value={priority}
+               onValueChange={value => onPriorityChange(node, Number(value) as FilePriority)}
+               disabled={!isSelected}>
+               <SelectTrigger className="mr-2 h-7 w-28 text-xs" aria-label={`Priority of ${node.name}`}>
+                  <SelectValue placeholder="Mixed" />
+               </SelectTrigger>
+               <SelectContent>
+                  {Object.entries(priorityLabels).map(([value, label]) => (
+                     <SelectItem key={value} value={value} className="text-xs">
+                        {label}
+                     </SelectItem>
+                  ))}
+               </SelectContent>
+            </Select>
             <div className="pr-2 text-xs tabular-nums text-muted-foreground">{formatBytes(node.size)}</div>
          </div>
          {isDirectory && isOpen && node.children && (
@@ -159,6 +267,10 @@ const FileTree = ({
                      level={level + 1}
                      selectedFiles={selectedFiles}
                      onSelectionChange={onSelectionChange}
+                     filePriorities={filePriorities}
+                     onPriorityChange={onPriorityChange}
+                     renames={renames}
+                     onRename={onRename}
                   />
                ))}
             </div>
@@ -167,11 +279,52 @@ const FileTree = ({
    );
 };
 
-export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }: DownloadOptionsDialogProps) {
+const peerSources: Record<string, string> = {
+   dht: "DHT",
+   lsd: "LSD",
+   tracker: "trackers",
+   ut_pex: "PEX",
+};
+
+/**
+ * Shows how far resolving a magnet link got, ie the peers found and the metadata received from them.
+ */
+const MagnetProgress = ({ progress }: { progress: MetadataProgress | null }) => {
+   const found = Object.entries(progress?.peers ?? {}).map(([source, count]) => `${count} via ${peerSources[source] ?? source}`);
+   return (
+      <div className="space-y-2 px-4 pb-4 text-sm text-muted-foreground">
+         <div>
+            {progress
+               ? `${progress.connected} peers connected, ${found.length ? found.join(", ") : "none"} found`
+               : "Looking for peers..."}
+         </div>
+         <Progress className="h-2" value={progress?.size ? (progress.received / progress.size) * 100 : 0} />
+         <div className="flex justify-between tabular-nums">
+            <span>
+               {progress?.size
+                  ? `Metadata: ${formatBytes(progress.received)} of ${formatBytes(progress.size)}`
+                  : "Waiting for a peer with the metadata"}
+            </span>
+            {progress && <span>{`${Math.round(progress.elapsed / 1000)}s of ${progress.timeout / 1000}s`}</span>}
+         </div>
+      </div>
+   );
+};
+
+export function DownloadOptionsDialog({ backends, torrent, isOpen, onClose }: DownloadOptionsDialogProps) {
    const { toast } = useToast();
    const [files, setFiles] = React.useState<TorrentFileInfo[] | null>(null);
    const [isLoadingFiles, setIsLoadingFiles] = React.useState(false);
    const [selectedFiles, setSelectedFiles] = React.useState(new Set<string>());
+   const [filePriorities, setFilePriorities] = React.useState(new Map<string, FilePriority>()); // by path, for files only
+   const [renames, setRenames] = React.useState(new Map<string, string>()); // the new names by the original path
+   const [categories, setCategories] = React.useState<Record<string, Category>>({});
+   const [tags, setTags] = React.useState<string[]>([]);
+   const [newTag, setNewTag] = React.useState("");
+   const [duplicate, setDuplicate] = React.useState<DuplicateTorrent | null>(null); // as per the backend, on submitting
+   const [magnetProgress, setMagnetProgress] = React.useState<MetadataProgress | null>(null);
+   const [magnetError, setMagnetError] = React.useState<string | null>(null);
+   const [magnetTimeout, setMagnetTimeout] = React.useState(MAGNET_TIMEOUT); // s, longer with each retry
    const fileTree = React.useMemo(() => (files ? buildFileTree(files) : null), [files]);
    const allFilePaths = React.useMemo(() => {
       if (!files) return torrent ? [torrent.name] : [];
@@ -192,33 +345,106 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
       defaultValues: downloadDefaults,
    });
 
+   // Load the backend's categories and tags, again whenever another backend is picked.
+   const backendId = form.watch("backend");
+   React.useEffect(() => setDuplicate(null), [isOpen, torrent, backendId]);
+   React.useEffect(() => {
+      if (!isOpen || !backendId) return;
+      let isCurrent = true;
+      const fetchJson = async <T,>(endpoint: string, fallback: T): Promise<T> => {
+         try {
+            const response = await fetch(`/api/v2/torrents/${endpoint}?backend=${encodeURIComponent(backendId)}`);
+            if (!response.ok) throw new Error((await response.json().catch(() => ({}))).error || `HTTP ${response.status}`);
+            return await response.json();
+         } catch (error) {
+            console.error(`Failed to fetch the ${endpoint}:`, error);
+            return fallback; // NOTE: New categories and tags can still be typed in.
+         }
+      };
+      Promise.all([fetchJson<Record<string, Category>>("categories", {}), fetchJson<string[]>("tags", [])]).then(
+         ([categories, tags]) => {
+            if (!isCurrent) return;
+            setCategories(categories);
+            setTags(tags);
+         },
+      );
+      return () => {
+         isCurrent = false;
+      };
+   }, [isOpen, backendId]);
+
+   React.useEffect(() => {
+      if (!isOpen) setMagnetTimeout(MAGNET_TIMEOUT); // NOTE: Only on closing, so as not to resolve the next magnet link twice.
+   }, [isOpen]);
+
    React.useEffect(() => {
+      if (!torrent || !isOpen) return;
+      // NOTE: Before anything else, so that no torrent shows how the last magnet link went.
+      setMagnetProgress(null);
+      setMagnetError(null);
+      if (torrent.metadata?.files) {
+         // NOTE: eg uploaded .torrent files, which come with their metadata.
+         setFiles(torrent.metadata.files.filter(file => !file.padding));
+         setIsLoadingFiles(false); // NOTE: In case the last magnet link was still loading.
+         return;
+      }
+      setIsLoadingFiles(true);
+      setFiles(null);
+
+      let isCurrent = true;
+      const onMetadata = (metadata: TorrentMetadata) => {
+         torrent.metadata = metadata; // NOTE: Quietly add metadata to torrent, ie don't trigger a re-render.
+         setFiles(metadata.files.filter(file => !file.padding)); // NOTE: The padding files are for the backend only.
+         setIsLoadingFiles(false);
+      };
+      const onError = (error: Error) => {
+         console.error("Failed to fetch torrent files:", error);
+         setFiles(null); // Explicitly set to null to indicate single file mode
+         setIsLoadingFiles(false);
+         toast({
+            variant: "destructive",
+            title: "Could not get file list",
+            description: error.message || "The backend might not support this feature.",
+         });
+      };
+
+      const url = `/api/metadata?url=${encodeURIComponent(torrent.hash)}`;
+      if (torrent.hash.startsWith("magnet:")) {
+         // Stream the magnet link's resolution, to show how far it got, which closing the stream then gives up on.
+         const eventSource = new EventSource(`${url}&timeout=${magnetTimeout}`);
+         eventSource.onmessage = message => {
+            const event: MetadataEvent = JSON.parse(message.data);
+            if (event.type === "progress") return setMagnetProgress(event.data);
+            eventSource.close();
+            if (event.type === "metadata") return onMetadata(event.data);
+            setMagnetError(event.message);
+            onError(new Error(event.message));
+         };
+         eventSource.onerror = () => {
+            eventSource.close(); // NOTE: Rather than have EventSource start over, resolving the magnet link all over again.
+            const message = "Lost the connection while resolving the magnet link";
+            setMagnetError(message);
+            onError(new Error(message));
+         };
+         return () => eventSource.close();
+      }
+
       const fetchFiles = async () => {
-         if (!torrent || !isOpen || torrent.metadata?.files) return;
-         setIsLoadingFiles(true);
-         setFiles(null);
          try {
-            const url = `/api/metadata?backendUrl=${encodeURIComponent(backendUrl)}&url=${encodeURIComponent(torrent.hash)}`;
             const response = await fetch(url);
-            if (!response.ok) throw new Error(`Failed to fetch torrent contents for url ${torrent.hash}.`);
-
+            if (!response.ok)
+               throw new Error((await response.json()).error || `Failed to fetch torrent contents for url ${torrent.hash}.`);
             const metadata: TorrentMetadata = await response.json();
-            torrent.metadata = metadata; // NOTE: Quietly add metadata to torrent, ie don't trigger a re-render.
-            setFiles(metadata.files);
+            if (isCurrent) onMetadata(metadata);
          } catch (error: any) {
-            console.error("Failed to fetch torrent files:", error);
-            setFiles(null); // Explicitly set to null to indicate single file mode
-            toast({
-               variant: "destructive",
-               title: "Could not get file list",
-               description: error.message || "The backend might not support this feature.",
-            });
-         } finally {
-            setIsLoadingFiles(false);
+            if (isCurrent) onError(error);
          }
       };
       fetchFiles();
-   }, [torrent, isOpen, backendUrl, toast]);
+      return () => {
+         isCurrent = false;
+      };
+   }, [torrent, isOpen, toast, magnetTimeout]);
 
    React.useEffect(() => {
       if (!torrent) return;
@@ -231,16 +457,21 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
       }
 
       form.reset({
+         backend: torrent.backend ?? backends[0]?.id ?? "",
          savePath: "/home/archive/bittorrent",
          paused: false,
          addToTop: false,
          sequential: false,
          firstLastPiecePrio: false,
          contentLayout: "NoSubfolder",
+         category: "",
+         tags: [],
          selectedFiles: initialSelected,
       });
       setSelectedFiles(initialSelected);
-   }, [torrent, files, isLoadingFiles, allFilePaths, form]);
+      setFilePriorities(new Map());
+      setRenames(new Map());
+   }, [torrent, backends, files, isLoadingFiles, allFilePaths, form]);
 
    const handleSelectionChange = (path: string, selected: boolean) => {
       const newSelectedFiles = new Set(selectedFiles);
@@ -304,6 +535,65 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
       setSelectedFiles(newSelectedFiles);
    };
 
+   // Setting a folder's priority sets every file under it, and a file's, just the file.
+   const handlePriorityChange = (node: FileTreeNode, priority: FilePriority) => {
+      setFilePriorities(prev => {
+         const next = new Map(prev);
+         for (const path of getFilePaths(node)) {
+            next.set(path, priority);
+         }
+         return next;
+      });
+   };
+
+   /**
+    * Renames the file or folder, unless the name is invalid or taken by one next to it.
+    * @param node
+    * @param name
+    * @returns whether the name was accepted
+    */
+   const handleRename = (node: FileTreeNode, name: string): boolean => {
+      if (!name || name.includes("/") || name === "." || name === "..") {
+         toast({ variant: "destructive", title: "Invalid name", description: `"${name}" isn't a valid file or folder name.` });
+         return false;
+      }
+
+      const parentPath = node.path.split("/").slice(0, -1).join("/");
+      const parent = fileTree && (parentPath ? findNode(fileTree, parentPath) : fileTree);
+      const siblings = Array.from(parent?.children?.values() ?? []);
+      if (siblings.some(sibling => sibling !== node && (renames.get(sibling.path) ?? sibling.name) === name)) {
+         toast({ variant: "destructive", title: "Name taken", description: `There's already a "${name}" next to "${node.name}".` });
+         return false;
+      }
+
+      setRenames(prev => {
+         const next = new Map(prev);
+         if (name === node.name) next.delete(node.path);
+         else next.set(node.path, name);
+         return next;
+      });
+      return true;
+   };
+
+   const handleCategoryChange = (category: string) => {
+      form.setValue("category", category);
+      const savePath = categories[category]?.savePath;
+      if (savePath) form.setValue("savePath", savePath); // NOTE: Categories without a save path of their own use the default.
+   };
+
+   const handleTagToggle = (tag: string) => {
+      const selected = form.getValues("tags");
+      form.setValue("tags", selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag]);
+   };
+
+   const handleTagAdd = () => {
+      const tag = newTag.trim().replaceAll(",", ""); // NOTE: qbittorrent separates tags with commas.
+      setNewTag("");
+      if (!tag) return;
+      if (!tags.includes(tag)) setTags(prev => [...prev, tag]);
+      if (!form.getValues("tags").includes(tag)) form.setValue("tags", [...form.getValues("tags"), tag]);
+   };
+
    const onSubmit = async (data: DownloadOptionsFormValues) => {
       if (!torrent) return;
 
@@ -320,14 +610,24 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
             selectedFileNames.add(torrent.name);
          }
       }
+      const backend = backends.find(b => b.id === data.backend);
+      if (!backend) return;
+
       try {
-         const url = `/api/v2/torrents/add?backendUrl=${encodeURIComponent(backendUrl)}`;
+         const url = `/api/v2/torrents/add?backend=${encodeURIComponent(backend.id)}`;
          const response = await fetch(url, {
             body: JSON.stringify({
                torrent,
                data: {
                   ...data,
                   selectedFiles: Array.from(selectedFileNames),
+                  renames: Object.fromEntries(renames),
+                  mergeTrackers: !!duplicate, // NOTE: Only on confirming the warning about the duplicate.
+                  filePriorities: Object.fromEntries(
+                     Array.from(filePriorities).filter(
+                        ([path, priority]) => selectedFileNames.has(path) && priority !== FilePriority.Normal,
+                     ),
+                  ),
                },
             }),
             headers: { "Content-Type": "application/json" },
@@ -335,16 +635,28 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
          });
 
          if (response.ok) {
-            toast({
-               title: "Download started",
-               description: `Downloading "${torrent?.name}"`,
-            });
+            const { merged } = await response.json();
+            if (merged) {
+               toast({
+                  title: "Trackers merged",
+                  description: `Added ${merged.length} trackers to "${duplicate?.name}" on ${backend.name}`,
+               });
+            } else {
+               toast({
+                  title: "Download started",
+                  description: `Downloading "${torrent?.name}" on ${backend.name}`,
+               });
+            }
          } else {
-            const errorText = await response.text();
+            const body = response.status === 409 ? await response.clone().json() : {};
+            if (body.duplicate) {
+               setDuplicate(body.duplicate);
+               return; // NOTE: Leave the dialog open with the warning, to merge the trackers.
+            }
             toast({
                variant: "destructive",
                title: "Failed to start download",
-               description: errorText || "An unknown error occurred.",
+               description: await getAddTorrentError(response),
             });
          }
       } catch (error: any) {
@@ -460,6 +772,30 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
                         />
                      </div>
 
+                     <FormField
+                        control={form.control}
+                        name="backend"
+                        render={({ field }) => (
+                           <FormItem>
+                              <FormLabel>Backend</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                 <FormControl>
+                                    <SelectTrigger>
+                                       <SelectValue placeholder="Select backend" />
+                                    </SelectTrigger>
+                                 </FormControl>
+                                 <SelectContent>
+                                    {backends.map(backend => (
+                                       <SelectItem key={backend.id} value={backend.id}>
+                                          {backend.name}
+                                       </SelectItem>
+                                    ))}
+                                 </SelectContent>
+                              </Select>
+                           </FormItem>
+                        )}
+                     />
+
                      <FormField
                         control={form.control}
                         name="savePath"
@@ -473,6 +809,63 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
                         )}
                      />
 
+                     <FormField
+                        control={form.control}
+                        name="category"
+                        render={({ field }) => (
+                           <FormItem>
+                              <FormLabel>Category</FormLabel>
+                              <FormControl>
+                                 <Input
+                                    placeholder="None, or type a new one"
+                                    list="download-categories"
+                                    value={field.value}
+                                    onChange={e => handleCategoryChange(e.target.value)}
+                                 />
+                              </FormControl>
+                              <datalist id="download-categories">
+                                 {Object.keys(categories).map(name => (
+                                    <option key={name} value={name} />
+                                 ))}
+                              </datalist>
+                           </FormItem>
+                        )}
+                     />
+
+                     <FormField
+                        control={form.control}
+                        name="tags"
+                        render={({ field }) => (
+                           <FormItem>
+                              <FormLabel>Tags</FormLabel>
+                              <div className="flex flex-wrap gap-1">
+                                 {tags.map(tag => (
+                                    <Badge
+                                       key={tag}
+                                       variant={field.value.includes(tag) ? "default" : "outline"}
+                                       className="cursor-pointer"
+                                       onClick={() => handleTagToggle(tag)}>
+                                       <Tag className="mr-1 h-3 w-3" />
+                                       {tag}
+                                    </Badge>
+                                 ))}
+                              </div>
+                              <FormControl>
+                                 <Input
+                                    placeholder="Add a tag and press Enter"
+                                    value={newTag}
+                                    onChange={e => setNewTag(e.target.value)}
+                                    onKeyDown={e => {
+                                       if (e.key !== "Enter") return;
+                                       e.preventDefault(); // NOTE: Don't submit the form.
+                                       handleTagAdd();
+                                    }}
+                                 />
+                              </FormControl>
+                           </FormItem>
+                        )}
+                     />
+
                      <FormField
                         control={form.control}
                         name="contentLayout"
@@ -515,13 +908,24 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
                         <div className="h-full overflow-x-auto p-1">
                            <div className="min-w-max">
                               {isLoadingFiles ? (
-                                 <div className="space-y-2 p-4">
-                                    <Skeleton className="h-6 w-3/4" />
-                                    <Skeleton className="h-6 w-1/2" />
-                                    <Skeleton className="h-6 w-5/6" />
-                                 </div>
+                                 <>
+                                    <div className="space-y-2 p-4">
+                                       <Skeleton className="h-6 w-3/4" />
+                                       <Skeleton className="h-6 w-1/2" />
+                                       <Skeleton className="h-6 w-5/6" />
+                                    </div>
+                                    {torrent.hash.startsWith("magnet:") && <MagnetProgress progress={magnetProgress} />}
+                                 </>
                               ) : fileTree ? (
-                                 <FileTree node={fileTree} selectedFiles={selectedFiles} onSelectionChange={handleSelectionChange} />
+                                 <FileTree
+                                    node={fileTree}
+                                    selectedFiles={selectedFiles}
+                                    onSelectionChange={handleSelectionChange}
+                                    filePriorities={filePriorities}
+                                    onPriorityChange={handlePriorityChange}
+                                    renames={renames}
+                                    onRename={handleRename}
+                                 />
                               ) : (
                                  <div className="flex items-center p-4 text-sm">
                                     <Checkbox
@@ -538,16 +942,45 @@ export function DownloadOptionsDialog({ backendUrl, torrent, isOpen, onClose }:
                                     <div className="text-xs tabular-nums text-muted-foreground">{torrent.size}</div>
                                  </div>
                               )}
+                              {!isLoadingFiles && magnetError && (
+                                 <div className="flex items-center justify-between gap-4 border-t p-4 text-sm text-muted-foreground">
+                                    <span>{magnetError}</span>
+                                    {magnetTimeout < MAX_MAGNET_TIMEOUT && (
+                                       <Button
+                                          type="button"
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setMagnetTimeout(timeout => Math.min(timeout * 2, MAX_MAGNET_TIMEOUT))}>
+                                          Retry for {Math.min(magnetTimeout * 2, MAX_MAGNET_TIMEOUT)}s
+                                       </Button>
+                                    )}
+                                 </div>
+                              )}
                            </div>
                         </div>
                      </ScrollArea>
                   </div>
 
+                  {duplicate && (
+                     <Alert className="col-span-3">
+                        <TriangleAlert className="h-4 w-4" />
+                        <AlertTitle>Already on {backends.find(b => b.id === backendId)?.name ?? backendId}</AlertTitle>
+                        <AlertDescription>
+                           {`This torrent is there already, as "${duplicate.name}".`}{" "}
+                           {duplicate.trackers.length
+                              ? `Merge its ${duplicate.trackers.length} new trackers into that one instead?`
+                              : "That one has all of its trackers already."}
+                        </AlertDescription>
+                     </Alert>
+                  )}
+
                   <DialogFooter className="col-span-3">
                      <Button type="button" variant="ghost" onClick={onClose}>
                         Cancel
                      </Button>
-                     <Button type="submit">OK</Button>
+                     <Button type="submit" disabled={!!duplicate && !duplicate.trackers.length}>
+                        {duplicate ? "Merge trackers" : "OK"}
+                     </Button>
                   </DialogFooter>
                </form>
             </Form>
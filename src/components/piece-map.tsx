@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { PieceState } from "@/lib/qbittorrent-types";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+type PieceMapProps = {
+   backendId: string;
+   hash: string;
+   files: Array<{ name: string; pieces: [number, number] }>; // as per getFilePieces, for the file boundaries
+};
+
+const POLL_INTERVAL = 2000; // HARD-CODED
+const GAP = 1; // HARD-CODED: px between the cells
+
+const pieceColors: Record<PieceState, string> = {
+   [PieceState.Missing]: "--muted",
+   [PieceState.Downloading]: "--chart-4",
+   [PieceState.Downloaded]: "--chart-2",
+};
+
+const pieceLabels: Record<PieceState, string> = {
+   [PieceState.Missing]: "Missing",
+   [PieceState.Downloading]: "Downloading",
+   [PieceState.Downloaded]: "Downloaded",
+};
+
+const isSameSet = <T,>(a: Set<T>, b: Set<T>) => a.size === b.size && Array.from(a).every(item => b.has(item));
+
+/**
+ * @param count - the number of pieces
+ * @returns the size of each piece's cell, in px, smaller for the bigger torrents so that the map stays a manageable height
+ */
+const getCellSize = (count: number) => (count > 20000 ? 2 : count > 5000 ? 4 : 6); // HARD-CODED
+
+/**
+ * Draws the pieces of a transfer as a grid of cells, with a mark where each file starts, polling the backend for the pieces'
+ * states and only redrawing the cells that changed.
+ */
+export function PieceMap({ backendId, hash, files }: PieceMapProps) {
+   const [states, setStates] = useState<PieceState[] | null>(null);
+   const [error, setError] = useState<string | null>(null);
+   const [width, setWidth] = useState(0);
+   const [hovered, setHovered] = useState<number | null>(null);
+   const containerRef = useRef<HTMLDivElement>(null);
+   const canvasRef = useRef<HTMLCanvasElement>(null);
+   const drawnRef = useRef<{ columns: number; starts: Set<number>; states: PieceState[] } | null>(null);
+
+   const count = states?.length ?? 0;
+   const cellSize = getCellSize(count);
+   const columns = Math.max(1, Math.floor((width + GAP) / (cellSize + GAP)));
+
+   // The pieces that files start in, bar the first.
+   const starts = useMemo(() => new Set(files.slice(1).map(file => file.pieces[0])), [files]);
+
+   useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+      observer.observe(container);
+      return () => observer.disconnect();
+   }, []);
+
+   useEffect(() => {
+      setStates(null);
+      setError(null);
+      drawnRef.current = null;
+
+      const controller = new AbortController();
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const poll = async () => {
+         try {
+            const params = new URLSearchParams({ backend: backendId, hash });
+            const response = await fetch(`/api/v2/torrents/pieceStates?${params}`, { signal: controller.signal });
+            if (!response.ok) throw new Error((await response.json().catch(() => ({}))).error || `HTTP ${response.status}`);
+            const next: PieceState[] = await response.json();
+            // NOTE: Keep the previous array when nothing changed, which spares the redraw altogether.
+            setStates(prev => (prev && prev.length === next.length && prev.every((state, i) => state === next[i]) ? prev : next));
+            setError(null);
+         } catch (e: any) {
+            if (controller.signal.aborted) return;
+            console.error(`Failed to get the pieces of ${hash}:`, e);
+            setError(e.message);
+         }
+         if (!controller.signal.aborted) timeoutId = setTimeout(poll, POLL_INTERVAL);
+      };
+      poll();
+
+      return () => {
+         controller.abort();
+         clearTimeout(timeoutId);
+      };
+   }, [backendId, hash]);
+
+   useEffect(() => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+      if (!canvas || !context || !states || !width) return;
+
+      const drawn = drawnRef.current;
+      // NOTE: Only redraw everything when the layout changed, else just the cells whose state changed since the previous poll.
+      const isFull =
+         !drawn || drawn.columns !== columns || drawn.states.length !== states.length || !isSameSet(drawn.starts, starts);
+      const step = cellSize + GAP;
+      if (isFull) {
+         const ratio = window.devicePixelRatio || 1;
+         const rows = Math.ceil(states.length / columns);
+         canvas.width = columns * step * ratio;
+         canvas.height = Math.max(rows * step - GAP, 0) * ratio;
+         canvas.style.width = `${columns * step}px`;
+         canvas.style.height = `${Math.max(rows * step - GAP, 0)}px`;
+         context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      }
+
+      const style = getComputedStyle(canvas);
+      const getColor = (variable: string) => `hsl(${style.getPropertyValue(variable).trim()})`;
+      const colors = Object.fromEntries(Object.entries(pieceColors).map(([state, variable]) => [state, getColor(variable)]));
+      const boundary = getColor("--foreground");
+      for (let i = 0; i < states.length; ++i) {
+         if (!isFull && drawn.states[i] === states[i]) continue;
+         const x = (i % columns) * step;
+         const y = Math.floor(i / columns) * step;
+         context.fillStyle = colors[states[i]] ?? colors[PieceState.Missing];
+         context.fillRect(x, y, cellSize, cellSize);
+         if (starts.has(i)) {
+            context.fillStyle = boundary;
+            context.fillRect(x, y, Math.max(1, cellSize / 3), cellSize);
+         }
+      }
+      drawnRef.current = { columns, starts, states };
+   }, [states, columns, cellSize, starts, width]);
+
+   const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const column = Math.floor((event.clientX - rect.left) / (cellSize + GAP));
+      const row = Math.floor((event.clientY - rect.top) / (cellSize + GAP));
+      const index = row * columns + column;
+      setHovered(column < columns && index < count ? index : null);
+   };
+
+   const counts = useMemo(() => {
+      const counts: Record<PieceState, number> = {
+         [PieceState.Missing]: 0,
+         [PieceState.Downloading]: 0,
+         [PieceState.Downloaded]: 0,
+      };
+      states?.forEach(state => ++counts[state]);
+      return counts;
+   }, [states]);
+
+   const hoveredFiles = hovered === null ? [] : files.filter(({ pieces: [first, last] }) => first <= hovered && hovered <= last);
+
+   return (
+      <div className="space-y-3">
+         <div className="flex flex-wrap gap-4 text-sm">
+            {[PieceState.Downloaded, PieceState.Downloading, PieceState.Missing].map(state => (
+               <span key={state} className="flex items-center gap-1">
+                  <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: `hsl(var(${pieceColors[state]}))` }} />
+                  {pieceLabels[state]}: <span className="tabular-nums">{counts[state]}</span>
+               </span>
+            ))}
+            {starts.size > 0 && (
+               <span className="flex items-center gap-1">
+                  <span className="h-3 w-1 bg-foreground" />
+                  File start
+               </span>
+            )}
+         </div>
+         {error && <p className="text-sm text-destructive">{error}</p>}
+         <div ref={containerRef} className="w-full">
+            {!states ? (
+               !error && <Skeleton className="h-24 w-full" />
+            ) : (
+               <canvas
+                  ref={canvasRef}
+                  className={cn("block", { "cursor-crosshair": count > 0 })}
+                  onMouseMove={handleMouseMove}
+                  onMouseLeave={() => setHovered(null)}
+                  aria-label={`Piece map of ${count} pieces`}
+               />
+            )}
+         </div>
+         <p className="min-h-5 break-all text-xs text-muted-foreground">
+            {hovered !== null && states
+               ? `Piece ${hovered + 1} of ${count}: ${pieceLabels[states[hovered]]}${hoveredFiles.length ? ` in ${hoveredFiles.map(file => file.name).join(", ")}` : ""}`
+               : "Hover over a piece to see its files."}
+         </p>
+      </div>
+   );
+}
@@ -1,120 +1,350 @@
-
 "use client";
 
-import { useState, useMemo, useEffect, useCallback } from "react";
-import type { Torrent, SortConfig } from "@/lib/types";
+import { useState, useMemo, useEffect, useCallback, useRef, type Dispatch, type SetStateAction } from "react";
+import type { Backend, Torrent, TorrentAction, TorrentView, SortConfig } from "@/lib/types";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import {
-   Dialog,
-   DialogContent,
-   DialogDescription,
-   DialogFooter,
-   DialogHeader,
-   DialogTitle,
-   DialogTrigger,
-} from "@/components/ui/dialog";
-import { Label } from "@/components/ui/label";
-import { TorrentTable } from "@/components/torrent-table";
-import { Search, Settings } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BackendSettingsDialog } from "@/components/backend-settings-dialog";
+import { TorrentTable, actionLabels, type RowClickModifiers } from "@/components/torrent-table";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { BulkDownloadDialog } from "@/components/bulk-download-dialog";
+import { DeleteTorrentsDialog } from "@/components/delete-torrents-dialog";
+import { AddTorrentDialog, getTorrentsFromFiles, getTorrentsFromLinks } from "@/components/add-torrent-dialog";
+import { DownloadOptionsDialog } from "@/components/download-options-dialog";
+import { TorrentDetailsPanel } from "@/components/torrent-details-panel";
+import { Plus, RefreshCw, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { cn, getTorrentKey, hasRss } from "@/lib/utils";
 
 type TorrentClientProps = {
-   backendUrl: string;
-   setBackendUrl: (url: string) => void;
+   backends: Backend[];
+   setBackends: (backends: Backend[]) => void;
    torrents: Torrent[];
-   setTorrents: (torrents: Torrent[]) => void;
+   setTorrents: Dispatch<SetStateAction<Torrent[]>>;
+};
+
+type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "error" | "unsupported";
+
+type Connection = {
+   attempt: number; // consecutive failures, for the backoff
+   eventSource: EventSource | null;
+   isErrored: boolean; // whether the stream reported an error that was already toasted
+   reconnectId?: ReturnType<typeof setTimeout>;
+   watchdogId?: ReturnType<typeof setTimeout>;
+};
+
+const connectionStatusColors: Record<ConnectionStatus, string> = {
+   connecting: "bg-[hsl(var(--chart-4))]",
+   connected: "bg-[hsl(var(--chart-2))]",
+   reconnecting: "animate-pulse bg-[hsl(var(--chart-4))]",
+   error: "bg-destructive",
+   unsupported: "bg-muted-foreground",
 };
 
-type ConnectionStatus = "connecting" | "connected" | "error";
+const RECONNECT_BASE_DELAY = 1000; // HARD-CODED
+const RECONNECT_MAX_DELAY = 60000; // HARD-CODED
+const HEARTBEAT_TIMEOUT = 45000; // HARD-CODED: three of the RSS route's heartbeats
 
-export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents }: TorrentClientProps) {
+export function TorrentClient({ backends, setBackends, torrents, setTorrents }: TorrentClientProps) {
    const { toast } = useToast();
    const [filter, setFilter] = useState("");
    const [sortConfig, setSortConfig] = useState<SortConfig[]>([{ key: "added_on", direction: "descending" }]);
-   const [selectedTorrent, setSelectedTorrent] = useState<string | null>(null);
+   const [selectedTorrent, setSelectedTorrent] = useState<string | null>(null); // the anchor for shift-click ranges
+   const [selectedTorrents, setSelectedTorrents] = useState(new Set<string>());
+   const [torrentsToDelete, setTorrentsToDelete] = useState<Torrent[]>([]);
+   const [isBulkDownloadOpen, setIsBulkDownloadOpen] = useState(false);
+   const [isAddOpen, setIsAddOpen] = useState(false);
+   const [torrentsToAdd, setTorrentsToAdd] = useState<Torrent[]>([]); // uploaded or pasted, each in turn in the download dialog
+   const [isDragging, setIsDragging] = useState(false);
+   const [isDetailsOpen, setIsDetailsOpen] = useState(false); // for the anchor row, ie selectedTorrent
    const [readTorrents, setReadTorrents] = useState(new Set<string>());
    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-   const [localBackendUrl, setLocalBackendUrl] = useState(backendUrl);
-   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("connecting");
+   const [connectionStatus, setConnectionStatus] = useState<Record<string, ConnectionStatus>>({});
+   const [view, setView] = useState<TorrentView>("articles");
+   const reconnectRef = useRef<() => void>(() => {});
 
    useEffect(() => {
-      setLocalBackendUrl(backendUrl);
-   }, [backendUrl]);
+      const connections = new Map<string, Connection>();
+      let isClosed = false;
+      setTorrents([]); // NOTE: Don't show the previous view's rows while the new streams connect.
+      setSelectedTorrent(null);
+      setSelectedTorrents(new Set());
+      // NOTE: Only the backends with an RSS reader have feed articles.
+      const isSupported = (backend: Backend) => view !== "articles" || hasRss(backend);
+      const supported = backends.filter(isSupported);
+      setConnectionStatus(
+         Object.fromEntries(
+            backends.map(backend => [backend.id, (isSupported(backend) ? "connecting" : "unsupported") as ConnectionStatus]),
+         ),
+      );
 
-   useEffect(() => {
-      if (!backendUrl) {
-         setTorrents([]);
-         setConnectionStatus("connecting");
-         return;
-      }
+      const updateConnectionStatus = (backend: Backend, status: ConnectionStatus) => {
+         setConnectionStatus(prev => (prev[backend.id] === status ? prev : { ...prev, [backend.id]: status }));
+      };
+
+      const getConnection = (backend: Backend): Connection => {
+         let connection = connections.get(backend.id);
+         if (!connection) {
+            connection = { attempt: 0, eventSource: null, isErrored: false };
+            connections.set(backend.id, connection);
+         }
+         return connection;
+      };
+
+      const disconnect = (backend: Backend) => {
+         const connection = getConnection(backend);
+         clearTimeout(connection.reconnectId);
+         clearTimeout(connection.watchdogId);
+         connection.eventSource?.close();
+         connection.eventSource = null;
+      };
 
-      const eventSource = new EventSource(`/api/v2/rss?backendUrl=${encodeURIComponent(backendUrl)}`);
-      setConnectionStatus("connecting");
+      const scheduleReconnect = (backend: Backend) => {
+         if (isClosed) return;
+         disconnect(backend);
+         const connection = getConnection(backend);
+         // Exponential backoff with full jitter so that the backends, and the tabs, don't all retry in lockstep.
+         const delay = Math.random() * Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** connection.attempt++);
+         updateConnectionStatus(backend, "reconnecting");
+         if (connection.attempt === 1) {
+            toast({
+               variant: "destructive",
+               title: `Connection Lost: ${backend.name}`,
+               description: "Reconnecting automatically, or click the reconnect button to retry now.",
+            });
+         }
+         connection.reconnectId = setTimeout(() => connect(backend), delay);
+      };
+
+      // Dead connections don't necessarily error, so expect at least a heartbeat every so often.
+      const resetWatchdog = (backend: Backend) => {
+         const connection = getConnection(backend);
+         clearTimeout(connection.watchdogId);
+         connection.watchdogId = setTimeout(() => {
+            console.error(`EventSource for ${backend.name} went quiet`);
+            scheduleReconnect(backend);
+         }, HEARTBEAT_TIMEOUT);
+      };
 
-      const connect = () => {
+      const connect = async (backend: Backend) => {
+         // Log in first so that the server-side session exists before the stream asks the backend for anything.
+         if (backend.credentials) {
+            let response: Response;
+            try {
+               response = await fetch(`/api/v2/auth/login?backend=${encodeURIComponent(backend.id)}`, {
+                  method: "POST",
+                  headers: {
+                     "Content-Type": "application/json",
+                  },
+                  body: JSON.stringify(backend.credentials),
+               });
+            } catch (error) {
+               console.error(`Login to ${backend.name} failed:`, error);
+               scheduleReconnect(backend); // the server is unreachable, as opposed to the credentials being wrong
+               return;
+            }
+            if (!response.ok) {
+               const error = (await response.json().catch(() => ({}))).error;
+               console.error(`Login to ${backend.name} failed:`, error);
+               updateConnectionStatus(backend, "error");
+               toast({
+                  variant: "destructive",
+                  title: `Login Failed: ${backend.name}`,
+                  description: error || "Could not log into the backend. Please check your credentials.",
+               });
+               return;
+            }
+         }
+
+         const connection = getConnection(backend);
+         if (isClosed || connection.eventSource) return; // eg reconnected manually while logging in
+         const endpoint = view === "articles" ? "/api/v2/rss" : "/api/v2/sync/maindata";
+         const eventSource = new EventSource(`${endpoint}?backend=${encodeURIComponent(backend.id)}`);
+         connection.eventSource = eventSource;
+         resetWatchdog(backend);
          eventSource.onmessage = event => {
+            resetWatchdog(backend);
             try {
                const data = JSON.parse(event.data);
                if (data.type === "torrents") {
-                  setTorrents(data.data);
-                  setConnectionStatus("connected");
+                  const received: Torrent[] = data.data.map((torrent: Torrent) => ({ ...torrent, backend: backend.id }));
+                  setTorrents(prev => [...prev.filter(torrent => torrent.backend !== backend.id), ...received]);
+                  connection.attempt = 0;
+                  connection.isErrored = false;
+                  updateConnectionStatus(backend, "connected");
                } else if (data.type === "error") {
-                  console.error("SSE Error:", data.message);
-                  setConnectionStatus("error");
-                  toast({
-                     variant: "destructive",
-                     title: "Connection Error",
-                     description: data.message,
-                  });
+                  console.error(`SSE Error from ${backend.name}:`, data.message);
+                  updateConnectionStatus(backend, "error");
+                  // NOTE: The server ends the stream after a fatal error, eg an unknown backend, which reconnecting won't fix.
+                  if (data.fatal) disconnect(backend);
+                  if (!connection.isErrored) {
+                     // NOTE: The server keeps polling, and reporting, a failing backend so only toast the first error.
+                     connection.isErrored = true;
+                     toast({
+                        variant: "destructive",
+                        title: `Connection Error: ${backend.name}`,
+                        description: data.message,
+                     });
+                  }
                } else if (data.type === "status") {
-                  // You can handle status messages here if needed
+                  connection.attempt = 0;
+                  connection.isErrored = false;
+                  updateConnectionStatus(backend, "connected");
                }
+               // NOTE: Heartbeats only reset the watchdog.
             } catch (error) {
                console.error("Failed to parse SSE message:", error);
-               setConnectionStatus("error");
+               updateConnectionStatus(backend, "error");
             }
          };
 
          eventSource.onerror = err => {
-            console.error("EventSource failed:", err);
-            setConnectionStatus("error");
-            toast({
-               variant: "destructive",
-               title: "Connection Failed",
-               description: "Could not connect to the backend. Please check the URL and your connection.",
-            });
-            eventSource.close();
-            // Optional: attempt to reconnect after a delay
-            // setTimeout(connect, 5000);
+            console.error(`EventSource for ${backend.name} failed:`, err);
+            scheduleReconnect(backend);
          };
       };
 
-      connect();
+      reconnectRef.current = () => {
+         for (const backend of supported) {
+            disconnect(backend);
+            getConnection(backend).attempt = 0;
+            updateConnectionStatus(backend, "connecting");
+            connect(backend);
+         }
+      };
+
+      supported.forEach(connect);
 
       return () => {
-         eventSource.close();
+         isClosed = true;
+         supported.forEach(disconnect);
       };
-   }, [backendUrl, setTorrents, toast]);
+   }, [backends, view, setTorrents, toast]);
+
+   /**
+    * Runs the action on the torrents, which may be on several backends, updating the rows optimistically until the streams catch up.
+    * @param targets
+    * @param action
+    * @param deleteFiles - whether delete also deletes the downloaded files
+    */
+   const handleAction = async (targets: Torrent[], action: TorrentAction, deleteFiles = false) => {
+      const keys = new Set(targets.map(getTorrentKey));
+      const patch = (torrent: Torrent): Torrent | null => {
+         const isComplete = torrent.progress >= 1;
+         switch (action) {
+            case "delete":
+               return null;
+            case "stop":
+               return { ...torrent, dlspeed: 0, eta: -1, status: isComplete ? "completed" : "paused", upspeed: 0 };
+            case "start":
+            case "setForceStart":
+               return { ...torrent, status: isComplete ? "seeding" : "downloading" };
+            default:
+               return torrent;
+         }
+      };
+      setTorrents(prev =>
+         prev.flatMap(torrent => {
+            if (!keys.has(getTorrentKey(torrent))) return [torrent];
+            const patched = patch(torrent);
+            return patched ? [patched] : [];
+         }),
+      );
+
+      const byBackend = Map.groupBy(targets, torrent => torrent.backend ?? "");
+      await Promise.all(
+         Array.from(byBackend, async ([backendId, group]) => {
+            const backend = backends.find(b => b.id === backendId);
+            try {
+               const response = await fetch(`/api/v2/torrents/${action}?backend=${encodeURIComponent(backendId)}`, {
+                  method: "POST",
+                  headers: {
+                     "Content-Type": "application/json",
+                  },
+                  body: JSON.stringify({ hashes: group.map(torrent => torrent.hash), deleteFiles }),
+               });
+               if (!response.ok) throw new Error((await response.json().catch(() => ({}))).error || `HTTP ${response.status}`);
+            } catch (error: any) {
+               // Put the rows back as they were, the stream will correct them anyway on its next update.
+               const reverted = new Set(group.map(getTorrentKey));
+               setTorrents(prev => [...prev.filter(torrent => !reverted.has(getTorrentKey(torrent))), ...group]);
+               toast({
+                  variant: "destructive",
+                  title: `Failed to ${actionLabels[action].toLowerCase()} on ${backend?.name ?? backendId}`,
+                  description: error.message || "An unknown error occurred.",
+               });
+            }
+         }),
+      );
+   };
+
+   /**
+    * Marks the feed articles as read, locally and on their backends.
+    * @param targets
+    */
+   const markRead = (targets: Torrent[]) => {
+      const unread = targets.filter(torrent => !torrent.is_read && !readTorrents.has(getTorrentKey(torrent)));
+      if (!unread.length) return; // already marked as read
+
+      setReadTorrents(prev => new Set([...prev, ...unread.map(getTorrentKey)]));
 
-   const handleRowClick = (hash: string) => {
-      setSelectedTorrent(hash);
+      for (const torrent of unread) {
+         const backend = backends.find(b => b.id === torrent.backend);
+         if (!backend) continue; // the backend was removed in the meantime
 
-      const torrent = torrents.find(t => t.hash == hash)!; // It will be found, obviously.
-      if (torrent.is_read || readTorrents.has(hash)) {
-         return; // already marked as read
+         // Don't bother await'ing on it, just mark it as read on the backend.
+         fetch(`/api/v2/rss?backend=${encodeURIComponent(backend.id)}`, {
+            method: "POST",
+            headers: {
+               "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ feed: torrent.feed, id: torrent.id }),
+         });
       }
+   };
 
-      setReadTorrents(prev => new Set(prev).add(hash));
+   // NOTE: qbittorrent can't mark articles as unread, so this only lasts until the feed refreshes the articles that it read.
+   const markUnread = (targets: Torrent[]) => {
+      const keys = new Set(targets.map(getTorrentKey));
+      setReadTorrents(prev => prev.difference(keys));
+      setTorrents(prev => prev.map(torrent => (keys.has(getTorrentKey(torrent)) ? { ...torrent, is_read: false } : torrent)));
+   };
 
-      // Don't bother await'ing on it, just mark it as read on the backend.
-      fetch(`/api/v2/rss?backendUrl=${encodeURIComponent(backendUrl)}`, {
-         method: "POST",
-         headers: {
-            "Content-Type": "application/json",
-         },
-         body: JSON.stringify({ feed: torrent.feed, id: torrent.id }),
-      });
+   const handleRowClick = (key: string, modifiers: RowClickModifiers = { isRange: false, isToggle: false }) => {
+      if (modifiers.isRange && selectedTorrent) {
+         const keys = filteredAndSortedTorrents.map(getTorrentKey);
+         const from = keys.indexOf(selectedTorrent);
+         const to = keys.indexOf(key);
+         if (from !== -1 && to !== -1) {
+            // NOTE: The anchor stays put, so that further shift-clicks grow or shrink the range from the same row.
+            setSelectedTorrents(new Set(keys.slice(Math.min(from, to), Math.max(from, to) + 1)));
+            return;
+         }
+      }
+
+      setSelectedTorrent(key);
+
+      if (modifiers.isToggle) {
+         setSelectedTorrents(prev => {
+            const next = new Set(prev);
+            if (!next.delete(key)) next.add(key);
+            return next;
+         });
+         return;
+      }
+
+      setSelectedTorrents(new Set([key]));
+      setIsDetailsOpen(true);
+
+      if (view !== "articles") return; // only feed articles can be read
+
+      markRead(torrents.filter(t => getTorrentKey(t) == key));
+   };
+
+   const handleSelectionChange = (keys: string[], isSelected: boolean) => {
+      setSelectedTorrents(prev => (isSelected ? prev.union(new Set(keys)) : prev.difference(new Set(keys))));
    };
 
    const getType = (t: Torrent) => {
@@ -123,6 +353,8 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
       return 0; // Movie
    };
 
+   const backendNames = useMemo(() => new Map(backends.map(backend => [backend.id, backend.name])), [backends]);
+
    const filteredAndSortedTorrents = useMemo(() => {
       let processableTorrents = [...torrents];
 
@@ -145,6 +377,9 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
                } else if (config.key === "size") {
                   aValue = a.bytes ?? 0;
                   bValue = b.bytes ?? 0;
+               } else if (config.key === "backend") {
+                  aValue = backendNames.get(a.backend!) ?? "";
+                  bValue = backendNames.get(b.backend!) ?? "";
                } else {
                   aValue = a[config.key as keyof Torrent];
                   bValue = b[config.key as keyof Torrent];
@@ -155,6 +390,12 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
                   bValue = bValue ?? 0;
                }
 
+               if (config.key === "priority") {
+                  // NOTE: Sort the torrents that aren't queued after the queued ones.
+                  aValue = aValue || Infinity;
+                  bValue = bValue || Infinity;
+               }
+
                if (aValue < bValue) {
                   return config.direction === "ascending" ? -1 : 1;
                }
@@ -167,7 +408,18 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
       }
 
       return processableTorrents;
-   }, [torrents, filter, sortConfig]);
+   }, [torrents, filter, sortConfig, backendNames]);
+
+   const detailsTorrent = useMemo(
+      () => torrents.find(t => getTorrentKey(t) === selectedTorrent) ?? null,
+      [torrents, selectedTorrent],
+   );
+
+   // NOTE: Bulk actions only apply to the selected rows that the filter leaves visible.
+   const selectedVisible = useMemo(
+      () => filteredAndSortedTorrents.filter(torrent => selectedTorrents.has(getTorrentKey(torrent))),
+      [filteredAndSortedTorrents, selectedTorrents],
+   );
 
    const handleSort = (key: keyof Torrent | "type", isShiftClick: boolean) => {
       setSortConfig(prevConfig => {
@@ -196,21 +448,30 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
 
    const handleKeyDown = useCallback(
       (event: KeyboardEvent) => {
-         if (isSettingsOpen) return;
+         if (isSettingsOpen || isBulkDownloadOpen || torrentsToDelete.length || isAddOpen || torrentsToAdd.length) return;
 
          if (event.key === "j" || event.key === "ArrowDown") {
             event.preventDefault();
-            const currentIndex = filteredAndSortedTorrents.findIndex(t => t.hash === selectedTorrent);
+            const currentIndex = filteredAndSortedTorrents.findIndex(t => getTorrentKey(t) === selectedTorrent);
             const nextIndex = (currentIndex + 1) % filteredAndSortedTorrents.length;
-            handleRowClick(filteredAndSortedTorrents[nextIndex].hash);
+            handleRowClick(getTorrentKey(filteredAndSortedTorrents[nextIndex]));
          } else if (event.key === "k" || event.key === "ArrowUp") {
             event.preventDefault();
-            const currentIndex = filteredAndSortedTorrents.findIndex(t => t.hash === selectedTorrent);
+            const currentIndex = filteredAndSortedTorrents.findIndex(t => getTorrentKey(t) === selectedTorrent);
             const prevIndex = (currentIndex - 1 + filteredAndSortedTorrents.length) % filteredAndSortedTorrents.length;
-            handleRowClick(filteredAndSortedTorrents[prevIndex].hash);
+            handleRowClick(getTorrentKey(filteredAndSortedTorrents[prevIndex]));
          }
       },
-      [filteredAndSortedTorrents, selectedTorrent, handleRowClick, isSettingsOpen],
+      [
+         filteredAndSortedTorrents,
+         selectedTorrent,
+         handleRowClick,
+         isSettingsOpen,
+         isBulkDownloadOpen,
+         torrentsToDelete,
+         isAddOpen,
+         torrentsToAdd,
+      ],
    );
 
    useEffect(() => {
@@ -220,15 +481,55 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
       };
    }, [handleKeyDown]);
 
-   const handleSaveSettings = () => {
-      localStorage.setItem("backendUrl", localBackendUrl);
-      setBackendUrl(localBackendUrl);
-      setIsSettingsOpen(false);
-      toast({
-         title: "Settings Saved",
-         description: "Your backend URL has been updated.",
-      });
-   };
+   // Accept .torrent files, and magnet links or .torrent URLs, dropped anywhere on the page.
+   useEffect(() => {
+      let depth = 0; // NOTE: dragenter and dragleave fire for every element along the way, so count them.
+      const isDroppable = (event: DragEvent) =>
+         !(event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) &&
+         ["Files", "text/uri-list", "text/plain"].some(type => event.dataTransfer?.types.includes(type));
+
+      const handleDragEnter = (event: DragEvent) => {
+         if (!isDroppable(event)) return;
+         event.preventDefault();
+         if (++depth === 1) setIsDragging(true);
+      };
+      const handleDragLeave = () => {
+         if (depth && !--depth) setIsDragging(false);
+      };
+      const handleDragOver = (event: DragEvent) => {
+         if (isDroppable(event)) event.preventDefault(); // NOTE: Otherwise the browser doesn't allow dropping.
+      };
+      const handleDrop = async (event: DragEvent) => {
+         depth = 0;
+         setIsDragging(false);
+         if (!isDroppable(event) || !event.dataTransfer) return;
+         event.preventDefault(); // NOTE: Otherwise the browser opens the file.
+
+         // NOTE: Read the data transfer before awaiting anything, since it's emptied once the event is over.
+         const { dataTransfer } = event;
+         const links = getTorrentsFromLinks(dataTransfer.getData("text/uri-list") || dataTransfer.getData("text/plain"));
+         const files = Array.from(dataTransfer.files).filter(
+            file => file.name.toLowerCase().endsWith(".torrent") || file.type === "application/x-bittorrent",
+         );
+         if (!links.length && !files.length) {
+            toast({ variant: "destructive", title: "Nothing to add", description: "Drop .torrent files or magnet links." });
+            return;
+         }
+         const torrents = [...links, ...(await getTorrentsFromFiles(files, toast))];
+         setTorrentsToAdd(prev => [...prev, ...torrents]);
+      };
+
+      window.addEventListener("dragenter", handleDragEnter);
+      window.addEventListener("dragleave", handleDragLeave);
+      window.addEventListener("dragover", handleDragOver);
+      window.addEventListener("drop", handleDrop);
+      return () => {
+         window.removeEventListener("dragenter", handleDragEnter);
+         window.removeEventListener("dragleave", handleDragLeave);
+         window.removeEventListener("dragover", handleDragOver);
+         window.removeEventListener("drop", handleDrop);
+      };
+   }, [toast]);
 
    return (
       <div className="space-y-4 p-4 md:p-6">
@@ -244,50 +545,115 @@ export function TorrentClient({ backendUrl, setBackendUrl, torrents, setTorrents
                   aria-label="Filter torrents"
                />
             </div>
-            <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
-               <DialogTrigger asChild>
-                  <Button variant="ghost" size="icon" aria-label="Settings">
-                     <Settings className="h-5 w-5" />
+            <Tabs value={view} onValueChange={value => setView(value as TorrentView)}>
+               <TabsList>
+                  <TabsTrigger value="articles">Feed articles</TabsTrigger>
+                  <TabsTrigger value="transfers">Transfers</TabsTrigger>
+               </TabsList>
+            </Tabs>
+            <div className="flex flex-wrap items-center gap-2">
+               <Button size="sm" onClick={() => setIsAddOpen(true)} disabled={!backends.length}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add torrent
+               </Button>
+               {backends.map(backend => (
+                  <Badge
+                     key={backend.id}
+                     variant="outline"
+                     className="flex items-center gap-1"
+                     title={`${backend.url}: ${connectionStatus[backend.id] ?? "connecting"}`}>
+                     <span
+                        className={cn("h-2 w-2 rounded-full", connectionStatusColors[connectionStatus[backend.id] ?? "connecting"])}
+                        aria-label={connectionStatus[backend.id] ?? "connecting"}
+                     />
+                     <span>{backend.name}</span>
+                  </Badge>
+               ))}
+               {backends.length > 0 && (
+                  <Button
+                     variant="ghost"
+                     size="icon"
+                     aria-label="Reconnect now"
+                     title="Reconnect now"
+                     onClick={() => reconnectRef.current()}>
+                     <RefreshCw className="h-4 w-4" />
                   </Button>
-               </DialogTrigger>
-               <DialogContent className="sm:max-w-[425px]">
-                  <DialogHeader>
-                     <DialogTitle>Backend Settings</DialogTitle>
-                     <DialogDescription>Configure the URL for connecting to the qBittorrent backend.</DialogDescription>
-                  </DialogHeader>
-                  <div className="grid gap-4 py-4">
-                     <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="backend-url" className="text-right">
-                           URL
-                        </Label>
-                        <Input
-                           id="backend-url"
-                           className="col-span-3"
-                           value={localBackendUrl}
-                           onChange={e => setLocalBackendUrl(e.target.value)}
-                           placeholder="http://localhost:8080"
-                        />
-                     </div>
-                  </div>
-                  <DialogFooter>
-                     <Button type="submit" onClick={handleSaveSettings}>
-                        Save changes
-                     </Button>
-                  </DialogFooter>
-               </DialogContent>
-            </Dialog>
+               )}
+            </div>
+            <BackendSettingsDialog
+               backends={backends}
+               setBackends={setBackends}
+               isOpen={isSettingsOpen}
+               onOpenChange={setIsSettingsOpen}
+            />
          </div>
+         {selectedVisible.length > 0 && (
+            <BulkActionBar
+               view={view}
+               torrents={selectedVisible}
+               onDownload={() => setIsBulkDownloadOpen(true)}
+               onMarkRead={() => markRead(selectedVisible)}
+               onMarkUnread={() => markUnread(selectedVisible)}
+               onAction={action =>
+                  action === "delete" ? setTorrentsToDelete(selectedVisible) : handleAction(selectedVisible, action)
+               }
+               onClear={() => setSelectedTorrents(new Set())}
+            />
+         )}
          <div className="overflow-hidden rounded-lg border bg-card shadow-sm">
             <TorrentTable
-               backendUrl={backendUrl}
+               backends={backends}
+               view={view}
                torrents={filteredAndSortedTorrents}
                sortConfig={sortConfig}
                onSort={handleSort}
-               selectedTorrent={selectedTorrent}
+               selectedTorrents={selectedTorrents}
                onRowClick={handleRowClick}
+               onSelectionChange={handleSelectionChange}
+               onAction={(torrent, action) =>
+                  action === "delete" ? setTorrentsToDelete([torrent]) : handleAction([torrent], action)
+               }
                readTorrents={readTorrents}
             />
          </div>
+         <BulkDownloadDialog
+            backends={backends}
+            torrents={selectedVisible}
+            isOpen={isBulkDownloadOpen}
+            onClose={() => setIsBulkDownloadOpen(false)}
+         />
+         <DeleteTorrentsDialog
+            backends={backends}
+            torrents={torrentsToDelete}
+            onClose={() => setTorrentsToDelete([])}
+            onConfirm={(targets, deleteFiles) => {
+               setTorrentsToDelete([]);
+               handleAction(targets, "delete", deleteFiles);
+            }}
+         />
+         <AddTorrentDialog
+            isOpen={isAddOpen}
+            onClose={() => setIsAddOpen(false)}
+            onAdd={torrents => setTorrentsToAdd(prev => [...prev, ...torrents])}
+         />
+         <DownloadOptionsDialog
+            backends={backends}
+            torrent={torrentsToAdd[0] ?? null}
+            isOpen={torrentsToAdd.length > 0}
+            onClose={() => setTorrentsToAdd(prev => prev.slice(1))}
+         />
+         <TorrentDetailsPanel
+            backends={backends}
+            view={view}
+            torrent={detailsTorrent}
+            isOpen={isDetailsOpen}
+            onOpenChange={setIsDetailsOpen}
+         />
+         {isDragging && (
+            <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center border-4 border-dashed border-primary bg-background/80">
+               <p className="text-lg font-medium">Drop .torrent files or magnet links to add them</p>
+            </div>
+         )}
       </div>
    );
 }
@@ -0,0 +1,351 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import type { Backend, Torrent, TorrentDetails, TorrentView } from "@/lib/types";
+import { TrackerStatus } from "@/lib/qbittorrent-types";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PieceMap } from "@/components/piece-map";
+import { ETA_INFINITY, getFilePieces } from "@/lib/torrents";
+import { formatBytes, formatEta, formatSpeed } from "@/lib/utils";
+
+type TorrentDetailsPanelProps = {
+   backends: Backend[];
+   view: TorrentView;
+   torrent: Torrent | null; // the row to show, which leaves the panel empty when there is none
+   isOpen: boolean;
+   onOpenChange: (isOpen: boolean) => void;
+};
+
+const POLL_INTERVAL = 2000; // HARD-CODED
+const MIN_WIDTH = 360; // HARD-CODED
+const DEFAULT_WIDTH = 640; // HARD-CODED
+
+const trackerStatusLabels: Record<TrackerStatus, string> = {
+   [TrackerStatus.Disabled]: "Disabled",
+   [TrackerStatus.NotContacted]: "Not contacted",
+   [TrackerStatus.Working]: "Working",
+   [TrackerStatus.Updating]: "Updating",
+   [TrackerStatus.NotWorking]: "Not working",
+};
+
+// NOTE: The backends report -1 for whatever they don't know.
+const formatCount = (count: number) => (count < 0 ? "?" : String(count));
+const formatDate = (timestamp: number) => (timestamp > 0 ? new Date(timestamp * 1000).toLocaleString() : "?");
+const formatLimit = (limit: number) => (limit > 0 ? formatSpeed(limit) : "∞");
+const formatSize = (bytes: number) => (bytes < 0 ? "?" : formatBytes(bytes));
+
+/**
+ * Lays out label and value pairs in two columns.
+ */
+function Fields({ fields }: { fields: Array<[label: string, value: ReactNode]> }) {
+   return (
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+         {fields.map(([label, value]) => (
+            <div key={label} className="contents">
+               <dt className="text-muted-foreground">{label}</dt>
+               <dd className="break-all">{value === "" || value == null ? "-" : value}</dd>
+            </div>
+         ))}
+      </dl>
+   );
+}
+
+function General({ details }: { details: TorrentDetails }) {
+   const { properties: p } = details;
+   return (
+      <Fields
+         fields={[
+            ["Save path", p.save_path],
+            ["Total size", formatSize(p.total_size)],
+            ["Pieces", `${p.pieces_num} x ${formatBytes(p.piece_size)} (have ${p.pieces_have})`],
+            ["Added on", formatDate(p.addition_date)],
+            ["Completed on", formatDate(p.completion_date)],
+            ["Created on", formatDate(p.creation_date)],
+            ["Created by", p.created_by],
+            ["Comment", p.comment],
+            ["Info hash v1", p.infohash_v1],
+            ["Info hash v2", p.infohash_v2],
+            ["Private", p.is_private ? "Yes" : "No"],
+            ["Time active", formatEta(p.time_elapsed)],
+            ["Seeding time", formatEta(p.seeding_time)],
+            ["ETA", p.eta < 0 || p.eta >= ETA_INFINITY ? "∞" : formatEta(p.eta)],
+            ["Downloaded", `${formatSize(p.total_downloaded)} (${formatSize(p.total_downloaded_session)} this session)`],
+            ["Uploaded", `${formatSize(p.total_uploaded)} (${formatSize(p.total_uploaded_session)} this session)`],
+            ["Wasted", formatSize(p.total_wasted)],
+            ["Share ratio", p.share_ratio.toFixed(2)],
+            ["Download speed", `${formatSpeed(p.dl_speed)} (${formatSpeed(p.dl_speed_avg)} average)`],
+            ["Upload speed", `${formatSpeed(p.up_speed)} (${formatSpeed(p.up_speed_avg)} average)`],
+            ["Download limit", formatLimit(p.dl_limit)],
+            ["Upload limit", formatLimit(p.up_limit)],
+            ["Connections", `${p.nb_connections} (${formatCount(p.nb_connections_limit)} max)`],
+            ["Seeds", `${p.seeds} (${formatCount(p.seeds_total)} total)`],
+            ["Peers", `${p.peers} (${formatCount(p.peers_total)} total)`],
+            ["Last seen complete", formatDate(p.last_seen)],
+            ["Reannounce in", formatEta(p.reannounce)],
+         ]}
+      />
+   );
+}
+
+function Trackers({ details }: { details: TorrentDetails }) {
+   return (
+      <Table>
+         <TableHeader>
+            <TableRow>
+               <TableHead>Tier</TableHead>
+               <TableHead>URL</TableHead>
+               <TableHead>Status</TableHead>
+               <TableHead className="text-right">Peers</TableHead>
+               <TableHead className="text-right">Seeds</TableHead>
+               <TableHead className="text-right">Leeches</TableHead>
+               <TableHead className="text-right">Downloaded</TableHead>
+               <TableHead>Message</TableHead>
+            </TableRow>
+         </TableHeader>
+         <TableBody>
+            {details.trackers.map(tracker => (
+               <TableRow key={tracker.url}>
+                  <TableCell>{tracker.tier < 0 ? "" : tracker.tier}</TableCell>
+                  <TableCell className="break-all">{tracker.url}</TableCell>
+                  <TableCell className="whitespace-nowrap">{trackerStatusLabels[tracker.status] ?? tracker.status}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCount(tracker.num_peers)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCount(tracker.num_seeds)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCount(tracker.num_leeches)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCount(tracker.num_downloaded)}</TableCell>
+                  <TableCell>{tracker.msg}</TableCell>
+               </TableRow>
+            ))}
+         </TableBody>
+      </Table>
+   );
+}
+
+function Peers({ details }: { details: TorrentDetails }) {
+   if (!details.peers.length) return <p className="text-sm text-muted-foreground">Not connected to any peers.</p>;
+   return (
+      <Table>
+         <TableHeader>
+            <TableRow>
+               <TableHead>Address</TableHead>
+               <TableHead>Client</TableHead>
+               <TableHead>Connection</TableHead>
+               <TableHead>Flags</TableHead>
+               <TableHead className="text-right">Progress</TableHead>
+               <TableHead className="text-right">Down Speed</TableHead>
+               <TableHead className="text-right">Up Speed</TableHead>
+               <TableHead className="text-right">Downloaded</TableHead>
+               <TableHead className="text-right">Uploaded</TableHead>
+            </TableRow>
+         </TableHeader>
+         <TableBody>
+            {details.peers.map(peer => (
+               <TableRow key={`${peer.ip}:${peer.port}`}>
+                  <TableCell className="whitespace-nowrap">
+                     {peer.ip.includes(":") ? `[${peer.ip}]` : peer.ip}:{peer.port}
+                     {peer.country_code && <span className="ml-1 uppercase text-muted-foreground">{peer.country_code}</span>}
+                  </TableCell>
+                  <TableCell>{peer.client}</TableCell>
+                  <TableCell>{peer.connection}</TableCell>
+                  <TableCell className="whitespace-nowrap" title={peer.flags_desc}>
+                     {peer.flags}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{(peer.progress * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatSpeed(peer.dl_speed)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatSpeed(peer.up_speed)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatSize(peer.downloaded)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatSize(peer.uploaded)}</TableCell>
+               </TableRow>
+            ))}
+         </TableBody>
+      </Table>
+   );
+}
+
+function Files({ details }: { details: TorrentDetails }) {
+   return (
+      <Table>
+         <TableHeader>
+            <TableRow>
+               <TableHead>Name</TableHead>
+               <TableHead className="text-right">Size</TableHead>
+               <TableHead className="w-[30%]">Progress</TableHead>
+            </TableRow>
+         </TableHeader>
+         <TableBody>
+            {details.files.map(file => (
+               <TableRow key={file.name}>
+                  <TableCell className="break-all">{file.name}</TableCell>
+                  <TableCell className="whitespace-nowrap text-right tabular-nums">{formatBytes(file.size)}</TableCell>
+                  <TableCell>
+                     <div className="flex items-center gap-2">
+                        <Progress value={file.progress * 100} className="h-2" />
+                        <span className="w-12 text-right text-xs tabular-nums">{(file.progress * 100).toFixed(1)}%</span>
+                     </div>
+                  </TableCell>
+               </TableRow>
+            ))}
+         </TableBody>
+      </Table>
+   );
+}
+
+function HttpSources({ details }: { details: TorrentDetails }) {
+   if (!details.webseeds.length) return <p className="text-sm text-muted-foreground">No HTTP sources.</p>;
+   return (
+      <ul className="space-y-1 text-sm">
+         {details.webseeds.map(({ url }) => (
+            <li key={url} className="break-all">
+               {url}
+            </li>
+         ))}
+      </ul>
+   );
+}
+
+/**
+ * Shows the selected row in a resizable, non-modal, side panel: the transfer's details, polled from its backend while open, or
+ * the feed article as is.
+ */
+export function TorrentDetailsPanel({ backends, view, torrent, isOpen, onOpenChange }: TorrentDetailsPanelProps) {
+   const [details, setDetails] = useState<TorrentDetails | null>(null);
+   const [error, setError] = useState<string | null>(null);
+   const [width, setWidth] = useState(DEFAULT_WIDTH);
+   const widthRef = useRef<{ startX: number; startWidth: number } | null>(null); // while resizing
+
+   const backend = backends.find(b => b.id === torrent?.backend);
+   const isTransfer = view === "transfers" && !!torrent && !!backend;
+   // NOTE: Only restart polling for another row, not for every update of the same one.
+   const backendId = isTransfer ? backend.id : null;
+   const hash = torrent?.hash;
+   const name = torrent?.name;
+
+   useEffect(() => {
+      setDetails(null);
+      setError(null);
+      if (!isOpen || !backendId || !hash) return;
+
+      const controller = new AbortController();
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const poll = async () => {
+         try {
+            const params = new URLSearchParams({ backend: backendId, hash });
+            const response = await fetch(`/api/v2/torrents/details?${params}`, { signal: controller.signal });
+            if (!response.ok) throw new Error((await response.json().catch(() => ({}))).error || `HTTP ${response.status}`);
+            setDetails(await response.json());
+            setError(null);
+         } catch (e: any) {
+            if (controller.signal.aborted) return;
+            console.error(`Failed to get the details of ${name}:`, e);
+            setError(e.message);
+         }
+         if (!controller.signal.aborted) timeoutId = setTimeout(poll, POLL_INTERVAL);
+      };
+      poll();
+
+      return () => {
+         controller.abort();
+         clearTimeout(timeoutId);
+      };
+   }, [isOpen, backendId, hash, name]);
+
+   const handleResizeStart = (event: React.PointerEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      widthRef.current = { startX: event.clientX, startWidth: width };
+   };
+
+   const handleResize = (event: React.PointerEvent<HTMLDivElement>) => {
+      if (!widthRef.current) return;
+      const { startX, startWidth } = widthRef.current;
+      const maxWidth = window.innerWidth * 0.9; // HARD-CODED: leave some of the table showing
+      setWidth(Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + startX - event.clientX)));
+   };
+
+   const handleResizeEnd = () => {
+      widthRef.current = null;
+   };
+
+   // NOTE: Prefer the backend's piece ranges, then the metadata, if any, whose padding files the backend may not list.
+   const pieceFiles = useMemo(() => {
+      const metadata = torrent?.metadata;
+      const files = details?.files ?? [];
+      if (!metadata || (files.length && files.every(file => file.piece_range)))
+         return getFilePieces(files, details?.properties.piece_size ?? 0);
+      const metadataFiles = metadata.files.map(file => ({ name: file.path.join("/"), size: file.length, padding: file.padding }));
+      return getFilePieces(metadataFiles, metadata.pieceLength ?? 0);
+   }, [torrent?.metadata, details]);
+
+   const renderTab = (Tab: (props: { details: TorrentDetails }) => ReactNode) =>
+      error ? (
+         <p className="text-sm text-destructive">{error}</p>
+      ) : details ? (
+         <Tab details={details} />
+      ) : (
+         <div className="space-y-2">
+            {Array.from({ length: 5 }, (_, i) => (
+               <Skeleton key={i} className="h-5 w-full" />
+            ))}
+         </div>
+      );
+
+   return (
+      <Sheet open={isOpen && !!torrent} onOpenChange={onOpenChange} modal={false}>
+         <SheetContent
+            side="right"
+            className="flex flex-col gap-4 sm:max-w-none"
+            style={{ width }}
+            onInteractOutside={e => e.preventDefault()} // NOTE: Keep it open while picking other rows.
+            onOpenAutoFocus={e => e.preventDefault()}>
+            <div
+               className="absolute inset-y-0 left-0 w-1.5 cursor-col-resize hover:bg-border"
+               onPointerDown={handleResizeStart}
+               onPointerMove={handleResize}
+               onPointerUp={handleResizeEnd}
+               onPointerCancel={handleResizeEnd}
+               role="separator"
+               aria-orientation="vertical"
+               aria-label="Resize the details panel"
+            />
+            <SheetHeader className="pr-6">
+               <SheetTitle className="break-all">{torrent?.name}</SheetTitle>
+               <SheetDescription>{isTransfer ? backend.name : torrent?.feed || "Feed article"}</SheetDescription>
+            </SheetHeader>
+            {!torrent ? null : isTransfer ? (
+               <Tabs defaultValue="general" className="flex min-h-0 flex-1 flex-col">
+                  <TabsList className="self-start">
+                     <TabsTrigger value="general">General</TabsTrigger>
+                     <TabsTrigger value="trackers">Trackers</TabsTrigger>
+                     <TabsTrigger value="peers">Peers</TabsTrigger>
+                     <TabsTrigger value="files">Files</TabsTrigger>
+                     <TabsTrigger value="webseeds">HTTP Sources</TabsTrigger>
+                     <TabsTrigger value="pieces">Pieces</TabsTrigger>
+                  </TabsList>
+                  <ScrollArea className="min-h-0 flex-1">
+                     <TabsContent value="general">{renderTab(General)}</TabsContent>
+                     <TabsContent value="trackers">{renderTab(Trackers)}</TabsContent>
+                     <TabsContent value="peers">{renderTab(Peers)}</TabsContent>
+                     <TabsContent value="files">{renderTab(Files)}</TabsContent>
+                     <TabsContent value="webseeds">{renderTab(HttpSources)}</TabsContent>
+                     <TabsContent value="pieces">
+                        <PieceMap backendId={backend.id} hash={torrent.hash} files={pieceFiles} />
+                     </TabsContent>
+                  </ScrollArea>
+               </Tabs>
+            ) : (
+               <ScrollArea className="min-h-0 flex-1">
+                  <Fields
+                     fields={Object.entries(torrent.article ?? {})
+                        .sort(([a], [b]) => a.localeCompare(b))
+                        .map(([key, value]) => [key, typeof value === "object" ? JSON.stringify(value) : String(value)])}
+                  />
+               </ScrollArea>
+            )}
+         </SheetContent>
+      </Sheet>
+   );
+}
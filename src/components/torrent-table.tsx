@@ -1,28 +1,98 @@
 
 import { useState } from "react";
-import type { Torrent, TorrentStatus, SortConfig } from "@/lib/types";
+import type { Backend, Torrent, TorrentAction, TorrentStatus, TorrentView, SortConfig } from "@/lib/types";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { TorrentStatusIcon } from "@/components/torrent-status-icon";
-import { formatEta, formatSpeed, getTrailerSearchUrl } from "@/lib/utils";
-import { ArrowUp, ArrowDown, ArrowUpDown, Tv, Film, Monitor, HelpCircle, Download, Youtube } from "lucide-react";
+import { formatEta, formatSpeed, getTorrentKey, getTrailerSearchUrl } from "@/lib/utils";
+import {
+   ArrowUp,
+   ArrowDown,
+   ArrowUpDown,
+   Tv,
+   Film,
+   Monitor,
+   HelpCircle,
+   Download,
+   Youtube,
+   Pause,
+   Play,
+   FastForward,
+   FileCheck,
+   Megaphone,
+   Trash2,
+   ArrowUpToLine,
+   ChevronUp,
+   ChevronDown,
+   ArrowDownToLine,
+   ListOrdered,
+   type LucideIcon,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
-import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu";
+import {
+   ContextMenu,
+   ContextMenuContent,
+   ContextMenuItem,
+   ContextMenuSeparator,
+   ContextMenuSub,
+   ContextMenuSubContent,
+   ContextMenuSubTrigger,
+   ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { DownloadOptionsDialog } from "./download-options-dialog";
 
 type Props = {
-   backendUrl: string;
+   backends: Backend[];
+   view: TorrentView;
    torrents: Torrent[];
    sortConfig: SortConfig[];
    onSort: (key: keyof Torrent | "type", isShiftClick: boolean) => void;
-   selectedTorrent: string | null;
-   onRowClick: (hash: string) => void;
+   selectedTorrents: Set<string>;
+   onRowClick: (key: string, modifiers: RowClickModifiers) => void;
+   onSelectionChange: (keys: string[], isSelected: boolean) => void;
+   onAction: (torrent: Torrent, action: TorrentAction) => void;
    readTorrents: Set<string>;
 };
 
+export type RowClickModifiers = {
+   isRange: boolean; // shift-click, ie select from the previously clicked row
+   isToggle: boolean; // ctrl- or cmd-click, ie add or remove the row
+};
+
+export const actionLabels: Record<TorrentAction, string> = {
+   stop: "Pause",
+   start: "Resume",
+   setForceStart: "Force Start",
+   recheck: "Recheck",
+   reannounce: "Reannounce",
+   delete: "Delete",
+   topPrio: "Move to Top",
+   increasePrio: "Move Up",
+   decreasePrio: "Move Down",
+   bottomPrio: "Move to Bottom",
+};
+
+// NOTE: The queue actions get a submenu of their own, the rest are listed in the context menu as is.
+const queueActions: TorrentAction[] = ["topPrio", "increasePrio", "decreasePrio", "bottomPrio"];
+const transferActions = (Object.keys(actionLabels) as TorrentAction[]).filter(action => !queueActions.includes(action));
+
+const actionIcons: Record<TorrentAction, LucideIcon> = {
+   stop: Pause,
+   start: Play,
+   setForceStart: FastForward,
+   recheck: FileCheck,
+   reannounce: Megaphone,
+   delete: Trash2,
+   topPrio: ArrowUpToLine,
+   increasePrio: ChevronUp,
+   decreasePrio: ChevronDown,
+   bottomPrio: ArrowDownToLine,
+};
+
 type HeaderConfig = {
    key: keyof Torrent | "type";
    label: string;
@@ -66,12 +136,24 @@ const SortableHeader = ({
    );
 };
 
-export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selectedTorrent, onRowClick, readTorrents }: Props) {
+export function TorrentTable({
+   backends,
+   view,
+   torrents,
+   sortConfig,
+   onSort,
+   selectedTorrents,
+   onRowClick,
+   onSelectionChange,
+   onAction,
+   readTorrents,
+}: Props) {
    const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
    const [torrentForModal, setTorrentForModal] = useState<Torrent | null>(null);
 
    const headers: HeaderConfig[] = [
       { key: "name", label: "Name", className: "w-[40%]" },
+      { key: "backend", label: "Backend" },
       { key: "type", label: "Type" },
       { key: "resolution", label: "Resolution" },
       { key: "size", label: "Size", headerClassName: "text-right", className: "text-right" },
@@ -82,8 +164,13 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
       { key: "eta", label: "ETA", headerClassName: "text-right", className: "text-right" },
       { key: "ratio", label: "Ratio", headerClassName: "text-right", className: "text-right" },
    ];
+   if (view === "transfers") {
+      // NOTE: Only live torrents are queued, feed articles aren't.
+      headers.push({ key: "priority", label: "Queue #", headerClassName: "text-right", className: "text-right" });
+   }
 
    const handleDownload = (torrent: Torrent) => {
+      if (view !== "articles") return; // transfers already exist in the backend
       setTorrentForModal(torrent);
       setIsDownloadModalOpen(true);
    };
@@ -92,12 +179,23 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
       window.open(getTrailerSearchUrl(torrent.name), "_blank");
    };
 
+   const visibleKeys = torrents.map(getTorrentKey);
+   const selectedCount = visibleKeys.filter(key => selectedTorrents.has(key)).length;
+   const isAllSelected = selectedCount > 0 && selectedCount === visibleKeys.length;
+
    return (
       <>
          <div className="w-full overflow-x-auto">
             <Table>
                <TableHeader>
                   <TableRow className="h-8 hover:bg-card">
+                     <TableHead className="h-8 w-8 p-2">
+                        <Checkbox
+                           checked={isAllSelected ? true : selectedCount > 0 ? "indeterminate" : false}
+                           onCheckedChange={checked => onSelectionChange(visibleKeys, checked === true)}
+                           aria-label="Select all visible"
+                        />
+                     </TableHead>
                      {headers.map(header => (
                         <SortableHeader
                            key={header.key}
@@ -113,10 +211,13 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
                <TableBody>
                   {torrents.length > 0 ? (
                      torrents.map(torrent => (
-                        <ContextMenu key={torrent.hash}>
+                        <ContextMenu key={getTorrentKey(torrent)}>
                            <ContextMenuTrigger asChild>
                               <TableRow
-                                 onClick={() => onRowClick(torrent.hash)}
+                                 onClick={e =>
+                                    onRowClick(getTorrentKey(torrent), { isRange: e.shiftKey, isToggle: e.ctrlKey || e.metaKey })
+                                 }
+                                 onMouseDown={e => e.shiftKey && e.preventDefault()} // NOTE: Don't select text on shift-click.
                                  onDoubleClick={() => handleDownload(torrent)}
                                  onAuxClick={e => {
                                     if (e.button === 1) {
@@ -125,14 +226,24 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
                                        handlePreview(torrent);
                                     }
                                  }}
-                                 data-state={selectedTorrent === torrent.hash ? "selected" : "unselected"}
+                                 data-state={selectedTorrents.has(getTorrentKey(torrent)) ? "selected" : "unselected"}
                                  className={cn(
                                     "h-9 cursor-pointer",
-                                    (torrent.is_read || readTorrents.has(torrent.hash)) && "text-muted-foreground",
+                                    (torrent.is_read || readTorrents.has(getTorrentKey(torrent))) && "text-muted-foreground",
                                  )}>
+                                 <TableCell className="w-8 p-2" onClick={e => e.stopPropagation()}>
+                                    <Checkbox
+                                       checked={selectedTorrents.has(getTorrentKey(torrent))}
+                                       onCheckedChange={checked => onSelectionChange([getTorrentKey(torrent)], checked === true)}
+                                       aria-label={`Select ${torrent.name}`}
+                                    />
+                                 </TableCell>
                                  <TableCell className="max-w-xs truncate p-2 font-medium md:max-w-md" title={torrent.name}>
                                     {torrent.name}
                                  </TableCell>
+                                 <TableCell className="whitespace-nowrap p-2">
+                                    {backends.find(backend => backend.id === torrent.backend)?.name ?? "-"}
+                                 </TableCell>
                                  <TableCell className="p-2">
                                     {torrent.category == "TV" ? (
                                        <Badge variant="outline" className="flex w-fit items-center gap-1">
@@ -181,13 +292,51 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
                                  <TableCell className="whitespace-nowrap p-2 text-right">{formatSpeed(torrent.upspeed)}</TableCell>
                                  <TableCell className="p-2 text-right">{formatEta(torrent.eta)}</TableCell>
                                  <TableCell className="p-2 text-right">{torrent.ratio?.toFixed(2)}</TableCell>
+                                 {view === "transfers" && (
+                                    <TableCell className="p-2 text-right tabular-nums">{torrent.priority || "-"}</TableCell>
+                                 )}
                               </TableRow>
                            </ContextMenuTrigger>
                            <ContextMenuContent>
-                              <ContextMenuItem onClick={() => handleDownload(torrent)}>
-                                 <Download className="mr-2 h-4 w-4" />
-                                 <span>Download...</span>
-                              </ContextMenuItem>
+                              {view === "articles" && (
+                                 <ContextMenuItem onClick={() => handleDownload(torrent)}>
+                                    <Download className="mr-2 h-4 w-4" />
+                                    <span>Download...</span>
+                                 </ContextMenuItem>
+                              )}
+                              {view === "transfers" &&
+                                 transferActions.map(action => {
+                                    const Icon = actionIcons[action];
+                                    return (
+                                       <ContextMenuItem key={action} onClick={() => onAction(torrent, action)}>
+                                          <Icon className="mr-2 h-4 w-4" />
+                                          <span>
+                                             {actionLabels[action]}
+                                             {action === "delete" && "..."}
+                                          </span>
+                                       </ContextMenuItem>
+                                    );
+                                 })}
+                              {view === "transfers" && (
+                                 <ContextMenuSub>
+                                    <ContextMenuSubTrigger>
+                                       <ListOrdered className="mr-2 h-4 w-4" />
+                                       <span>Queue</span>
+                                    </ContextMenuSubTrigger>
+                                    <ContextMenuSubContent>
+                                       {queueActions.map(action => {
+                                          const Icon = actionIcons[action];
+                                          return (
+                                             <ContextMenuItem key={action} onClick={() => onAction(torrent, action)}>
+                                                <Icon className="mr-2 h-4 w-4" />
+                                                <span>{actionLabels[action]}</span>
+                                             </ContextMenuItem>
+                                          );
+                                       })}
+                                    </ContextMenuSubContent>
+                                 </ContextMenuSub>
+                              )}
+                              {view === "transfers" && <ContextMenuSeparator />}
                               <ContextMenuItem onClick={() => handlePreview(torrent)}>
                                  <Youtube className="mr-2 h-4 w-4" />
                                  <span>Preview Trailer</span>
@@ -197,7 +346,7 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
                      ))
                   ) : (
                      <TableRow>
-                        <TableCell colSpan={headers.length} className="h-24 text-center">
+                        <TableCell colSpan={headers.length + 1} className="h-24 text-center">
                            No results found.
                         </TableCell>
                      </TableRow>
@@ -206,7 +355,7 @@ export function TorrentTable({ backendUrl, torrents, sortConfig, onSort, selecte
             </Table>
          </div>
          <DownloadOptionsDialog
-            backendUrl={backendUrl}
+            backends={backends}
             torrent={torrentForModal}
             isOpen={isDownloadModalOpen}
             onClose={() => setIsDownloadModalOpen(false)}
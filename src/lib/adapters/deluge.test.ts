@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddTorrentRequest } from "@/lib/adapters";
+import { DelugeAdapter } from "./deluge";
+
+const HASH = "0123456789abcdef0123456789abcdef01234567";
+
+const request: AddTorrentRequest = {
+   addToTop: true,
+   category: "Movies",
+   filePaths: ["a.txt", "b.txt"],
+   filePriorities: new Map(),
+   firstLastPiecePrio: false,
+   hash: HASH,
+   name: "Name",
+   paddingFiles: [],
+   paused: false,
+   renames: [{ isFolder: false, oldPath: "a.txt", newPath: "c.txt" }],
+   sequential: false,
+   tags: [],
+   unwantedFiles: [1],
+   url: "https://example.org/name.torrent",
+};
+
+/**
+ * @returns a stand-in for DelugeClient, whose every call succeeds, with the Label plugin enabled
+ */
+const createClient = () => ({
+   core: {
+      addTorrentUrl: vi.fn().mockResolvedValue(HASH),
+      getEnabledPlugins: vi.fn().mockResolvedValue(["Label"]),
+      getTorrentStatus: vi.fn().mockResolvedValue({
+         files: [
+            { index: 0, offset: 0, path: "Name/a.txt", size: 1 },
+            { index: 1, offset: 1, path: "Name/b.txt", size: 1 },
+         ],
+      }),
+      queueTop: vi.fn().mockResolvedValue(undefined),
+      removeTorrents: vi.fn().mockResolvedValue(undefined),
+      renameFiles: vi.fn().mockResolvedValue(undefined),
+      resumeTorrents: vi.fn().mockResolvedValue(undefined),
+   },
+   label: {
+      add: vi.fn().mockResolvedValue(undefined),
+      getLabels: vi.fn().mockResolvedValue([]),
+      setTorrent: vi.fn().mockResolvedValue(undefined),
+   },
+   web: {
+      ensureConnected: vi.fn().mockResolvedValue(undefined),
+   },
+});
+
+type Client = ReturnType<typeof createClient>;
+
+describe("DelugeAdapter.addTorrent", () => {
+   let client: Client;
+   let adapter: DelugeAdapter;
+
+   beforeEach(() => {
+      client = createClient();
+      adapter = new DelugeAdapter("http://deluge");
+      Object.assign(adapter, { client });
+   });
+
+   afterEach(() => {
+      vi.restoreAllMocks();
+   });
+
+   it("adds the torrent paused, queues, labels and renames it and then resumes it", async () => {
+      expect(await adapter.addTorrent(request)).toBe(HASH);
+      expect(client.core.addTorrentUrl).toHaveBeenCalledWith(request.url, expect.objectContaining({ add_paused: true }));
+      expect(client.core.queueTop).toHaveBeenCalledWith([HASH]);
+      expect(client.label.setTorrent).toHaveBeenCalledWith(HASH, "movies");
+      expect(client.core.renameFiles).toHaveBeenCalledWith(HASH, [[0, "Name/c.txt"]]);
+      expect(client.core.resumeTorrents).toHaveBeenCalledWith([HASH]);
+      expect(client.core.removeTorrents).not.toHaveBeenCalled();
+   });
+
+   it("leaves nothing to roll back when adding fails", async () => {
+      client.core.addTorrentUrl.mockRejectedValue(new Error("boom"));
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.core.removeTorrents).not.toHaveBeenCalled();
+   });
+
+   it("leaves an existing torrent be", async () => {
+      client.core.addTorrentUrl.mockResolvedValue(null);
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.core.removeTorrents).not.toHaveBeenCalled();
+   });
+
+   it.each([
+      ["queue", (client: Client) => client.core.queueTop.mockRejectedValue(new Error("boom"))],
+      ["label", (client: Client) => client.label.setTorrent.mockRejectedValue(new Error("boom"))],
+      ["rename", (client: Client) => client.core.renameFiles.mockRejectedValue(new Error("boom"))],
+      ["start", (client: Client) => client.core.resumeTorrents.mockRejectedValue(new Error("boom"))],
+   ])("removes the torrent, but not its files, when the %s step fails", async (step, fail) => {
+      fail(client);
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step, rolledBack: true });
+      expect(client.core.removeTorrents).toHaveBeenCalledExactlyOnceWith([HASH], false);
+   });
+
+   it("says it didn't roll back when removing the torrent fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      client.core.resumeTorrents.mockRejectedValue(new Error("boom"));
+      client.core.removeTorrents.mockRejectedValue(new Error("gone"));
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "start", rolledBack: false });
+   });
+});
@@ -0,0 +1,430 @@
+import { DelugeClient } from "@/lib/deluge";
+import { DelugeFilePriority, DelugePieceState, type DelugeTorrent, type DelugeTorrentKey } from "@/lib/deluge-types";
+import { formatSize, getPieceRange, getResolution, getSeries } from "@/lib/torrents";
+import { PieceState, TrackerStatus } from "@/lib/qbittorrent-types";
+import type { BackendCredentials, Torrent, TorrentDetails, TorrentStatus } from "@/lib/types";
+import {
+   AddTransaction,
+   getPathPrefix,
+   type AddTorrentRequest,
+   type BackendAdapter,
+   type FoundTorrent,
+   type TorrentSync,
+} from "./index";
+
+const KEYS: DelugeTorrentKey[] = [
+   "download_payload_rate",
+   "eta",
+   "label",
+   "name",
+   "progress",
+   "queue",
+   "ratio",
+   "state",
+   "time_added",
+   "total_wanted",
+   "upload_payload_rate",
+];
+
+const DETAIL_KEYS: DelugeTorrentKey[] = [
+   "active_time",
+   "all_time_download",
+   "comment",
+   "completed_time",
+   "creator",
+   "download_payload_rate",
+   "eta",
+   "file_progress",
+   "files",
+   "hash",
+   "max_connections",
+   "max_download_speed",
+   "max_upload_speed",
+   "name",
+   "next_announce",
+   "num_peers",
+   "num_pieces",
+   "num_seeds",
+   "peers",
+   "piece_length",
+   "private",
+   "progress",
+   "ratio",
+   "save_path",
+   "seeding_time",
+   "time_added",
+   "total_done",
+   "total_payload_download",
+   "total_payload_upload",
+   "total_peers",
+   "total_seeds",
+   "total_size",
+   "total_uploaded",
+   "tracker",
+   "tracker_status",
+   "trackers",
+   "upload_payload_rate",
+];
+
+/**
+ * Maps Deluge's torrent states onto the handful of statuses that the UI distinguishes.
+ * @param torrent
+ * @returns the UI status
+ */
+const getStatus = (torrent: Partial<DelugeTorrent>): TorrentStatus => {
+   switch (torrent.state) {
+      case "Error":
+         return "error";
+      case "Seeding":
+         return "seeding";
+      case "Paused":
+         return torrent.progress === 100 ? "completed" : "paused";
+      default:
+         return "downloading";
+   }
+};
+
+/**
+ * Converts a Deluge torrent, as per web.update_ui, into a Torrent for the table.
+ * @param hash - the torrent's hash, which web.update_ui only provides as the key
+ * @param torrent
+ * @returns the Torrent
+ */
+const fromDelugeTorrent = (hash: string, torrent: Partial<DelugeTorrent>): Torrent => {
+   const name = torrent.name ?? hash;
+   const series = getSeries(name);
+   const resolution = getResolution(name);
+   return {
+      added_on: Math.floor(torrent.time_added ?? 0),
+      bytes: torrent.total_wanted ?? null,
+      category: torrent.label ?? "", // NOTE: Deluge only has labels with the Label plugin enabled.
+      dlspeed: torrent.download_payload_rate ?? 0,
+      eta: torrent.eta ? torrent.eta : -1, // NOTE: Deluge reports an unknown ETA as 0.
+      feed: "",
+      hash: hash,
+      id: hash,
+      is_read: false, // NOTE: Only feed articles are read or unread.
+      is_series: series != null,
+      metadata: null,
+      name: name,
+      priority: (torrent.queue ?? -1) + 1, // NOTE: Deluge counts from 0, and reports -1 when not queued.
+      progress: (torrent.progress ?? 0) / 100,
+      ratio: Math.max(torrent.ratio ?? 0, 0),
+      resolution: resolution,
+      series: series,
+      size: torrent.total_wanted != null ? formatSize(torrent.total_wanted) : "?",
+      status: getStatus(torrent),
+      upspeed: torrent.upload_payload_rate ?? 0,
+   };
+};
+
+/**
+ * Adapts DelugeClient to BackendAdapter.
+ */
+export class DelugeAdapter implements BackendAdapter {
+   readonly client: DelugeClient;
+
+   constructor(readonly backendUrl: string) {
+      this.client = new DelugeClient(backendUrl);
+   }
+
+   login(username: string, password: string) {
+      return this.client.auth.login(password); // NOTE: The Deluge Web UI doesn't have usernames.
+   }
+
+   logout() {
+      return this.client.auth.logout();
+   }
+
+   configure(credentials: BackendCredentials) {
+      this.client.auth.configure(credentials.password);
+   }
+
+   /**
+    * Polls web.update_ui, which always returns every torrent, so compare with the previous poll to detect changes.
+    */
+   createSync(): TorrentSync {
+      let previous = "";
+      return {
+         poll: async () => {
+            await this.client.web.ensureConnected();
+            const { torrents } = await this.client.web.updateUi(KEYS);
+            const json = JSON.stringify(torrents);
+            if (json === previous) return null;
+
+            previous = json;
+            return Object.entries(torrents).map(([hash, torrent]) => fromDelugeTorrent(hash, torrent));
+         },
+         reset: () => {
+            previous = "";
+         },
+      };
+   }
+
+   async addTorrent(request: AddTorrentRequest): Promise<string> {
+      await this.client.web.ensureConnected();
+      // NOTE: Check up front, rather than leave the torrent added without its category.
+      if (request.category && !(await this.hasLabels())) {
+         throw new Error(`${this.backendUrl} needs the Label plugin for categories`);
+      }
+
+      // NOTE: Deluge takes the file priorities up front, so there's no need to add paused and cherry-pick afterwards like with
+      // qbittorrent.  It has no equivalent of contentLayout, so it's ignored.
+      const priorities = Array.from({ length: request.filePaths.length }, () => DelugeFilePriority.Normal);
+      for (const i of request.unwantedFiles) {
+         priorities[i] = DelugeFilePriority.Skip;
+      }
+      for (const i of Array.from(request.filePriorities.values()).flat()) {
+         priorities[i] = DelugeFilePriority.High; // NOTE: Deluge has nothing above high.
+      }
+      const options = {
+         add_paused: request.paused || request.renames.length > 0, // NOTE: Rename before anything lands on disk.
+         download_location: request.savePath || undefined,
+         file_priorities: priorities.some(priority => priority !== DelugeFilePriority.Normal) ? priorities : undefined,
+         prioritize_first_last_pieces: request.firstLastPiecePrio,
+         sequential_download: request.sequential,
+      };
+      const transaction = new AddTransaction(request.name);
+      const hash = await transaction.step(
+         "add",
+         async () => {
+            const added = request.file
+               ? await this.client.core.addTorrentFile(`${request.name}.torrent`, request.file, options)
+               : request.url.startsWith("magnet:")
+                 ? await this.client.core.addTorrentMagnet(request.url, options)
+                 : await this.client.core.addTorrentUrl(request.url, options);
+            // NOTE: Deluge returns nothing for duplicates, which must throw from within the step so as to keep the existing one.
+            if (!added) throw new Error(`${request.name} already exists in the backend`);
+            return added;
+         },
+         hash => this.client.core.removeTorrents([hash], false),
+      );
+      // NOTE: Deluge can only queue new torrents at the bottom.
+      if (request.addToTop) await transaction.step("queue", () => this.client.core.queueTop([hash]));
+      if (request.category) {
+         await transaction.step("label", async () => {
+            const label = request.category!.toLowerCase(); // NOTE: Deluge only allows lowercase labels.
+            if (!(await this.client.label.getLabels()).includes(label)) await this.client.label.add(label);
+            await this.client.label.setTorrent(hash, label);
+         });
+      }
+      // NOTE: Deluge has no tags, so they're ignored.
+      if (request.renames.length) {
+         await transaction.step("rename", async () => {
+            const { files } = await this.client.core.getTorrentStatus(hash, ["files"]);
+            if (!files?.length) throw new Error(`Can't rename the files of ${request.name} before the backend has its metadata`);
+            const prefix = getPathPrefix(files.find(file => file.index === 0)!.path, request);
+            for (const { isFolder, oldPath, newPath } of request.renames) {
+               if (isFolder) {
+                  await this.client.core.renameFolder(hash, `${prefix}${oldPath}/`, `${prefix}${newPath}/`);
+               } else {
+                  const file = files.find(file => file.path === prefix + oldPath);
+                  if (!file) throw new Error(`Couldn't find ${oldPath} of ${request.name} in the backend`);
+                  await this.client.core.renameFiles(hash, [[file.index, prefix + newPath]]);
+               }
+            }
+         });
+         if (!request.paused) await transaction.step("start", () => this.client.core.resumeTorrents([hash]));
+      }
+
+      return hash;
+   }
+
+   async findTorrent(hashes: string[]): Promise<FoundTorrent | null> {
+      await this.client.web.ensureConnected();
+      const statuses = await this.client.core.getTorrentsStatus({ id: hashes }, ["name", "trackers"]);
+      const [hash, status] = Object.entries(statuses)[0] ?? [];
+      if (!hash) return null;
+      return { hash, name: status.name ?? hash, trackers: (status.trackers ?? []).map(tracker => tracker.url) };
+   }
+
+   async addTrackers(hash: string, urls: string[]) {
+      await this.client.web.ensureConnected();
+      // NOTE: Deluge only sets the whole list, so append to the trackers that the torrent has, each in a tier of its own.
+      const { trackers = [] } = await this.client.core.getTorrentStatus(hash, ["trackers"]);
+      const tier = trackers.reduce((max, tracker) => Math.max(max, tracker.tier + 1), 0);
+      await this.client.core.setTorrentTrackers(hash, [...trackers, ...urls.map((url, i) => ({ tier: tier + i, url }))]);
+   }
+
+   async stop(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.pauseTorrents(hashes);
+   }
+
+   async start(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.resumeTorrents(hashes);
+   }
+
+   /**
+    * Deluge has no force start as such, but taking the torrents out of the queue's hands and resuming them amounts to the same.
+    */
+   async forceStart(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.setTorrentOptions(hashes, { auto_managed: false });
+      await this.client.core.resumeTorrents(hashes);
+   }
+
+   async recheck(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.forceRecheck(hashes);
+   }
+
+   async reannounce(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.forceReannounce(hashes);
+   }
+
+   async delete(hashes: string[], deleteFiles: boolean) {
+      await this.client.web.ensureConnected();
+      await this.client.core.removeTorrents(hashes, deleteFiles);
+   }
+
+   async queueTop(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.queueTop(hashes);
+   }
+
+   async queueUp(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.queueUp(hashes);
+   }
+
+   async queueDown(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.queueDown(hashes);
+   }
+
+   async queueBottom(hashes: string[]) {
+      await this.client.web.ensureConnected();
+      await this.client.core.queueBottom(hashes);
+   }
+
+   private async hasLabels() {
+      return (await this.client.core.getEnabledPlugins()).includes("Label");
+   }
+
+   /**
+    * Deluge's categories are the Label plugin's labels, which have no save path as such.
+    */
+   async getCategories() {
+      await this.client.web.ensureConnected();
+      if (!(await this.hasLabels())) return {};
+      const labels = await this.client.label.getLabels();
+      return Object.fromEntries(labels.map(name => [name, { name, savePath: "" }]));
+   }
+
+   async getTags() {
+      return [];
+   }
+
+   async getDetails(hash: string): Promise<TorrentDetails> {
+      await this.client.web.ensureConnected();
+      const torrent = await this.client.core.getTorrentStatus(hash, DETAIL_KEYS);
+      if (!torrent.hash) throw new Error(`Couldn't find ${hash} in the backend`); // NOTE: Deluge answers {} for unknown hashes.
+
+      const pieceLength = torrent.piece_length ?? 0;
+      const isFailing = /error/i.test(torrent.tracker_status ?? "");
+      // NOTE: Deluge only reports on the tracker it last announced to, and has no HTTP sources to speak of.
+      return {
+         files: (torrent.files ?? []).map(file => ({
+            name: file.path,
+            piece_range: pieceLength ? getPieceRange(file.offset, file.size, pieceLength) : undefined,
+            progress: torrent.file_progress?.[file.index] ?? 0,
+            size: file.size,
+         })),
+         peers: (torrent.peers ?? []).map(peer => {
+            const colon = peer.ip.lastIndexOf(":");
+            return {
+               client: peer.client,
+               connection: "BT",
+               country: peer.country,
+               country_code: peer.country.toLowerCase(),
+               dl_speed: peer.down_speed,
+               downloaded: -1,
+               files: "",
+               flags: peer.seed ? "S" : "",
+               flags_desc: peer.seed ? "S = seed" : "",
+               ip: peer.ip.slice(0, colon).replace(/^\[|\]$/g, ""),
+               port: Number(peer.ip.slice(colon + 1)),
+               progress: peer.progress,
+               relevance: -1,
+               up_speed: peer.up_speed,
+               uploaded: -1,
+            };
+         }),
+         properties: {
+            addition_date: Math.floor(torrent.time_added ?? -1),
+            comment: torrent.comment ?? "",
+            completion_date: torrent.completed_time ? Math.floor(torrent.completed_time) : -1,
+            created_by: torrent.creator ?? "",
+            creation_date: -1,
+            dl_limit: torrent.max_download_speed != null && torrent.max_download_speed > 0 ? torrent.max_download_speed * 1024 : -1,
+            dl_speed: torrent.download_payload_rate ?? 0,
+            dl_speed_avg: torrent.active_time ? Math.floor((torrent.all_time_download ?? 0) / torrent.active_time) : 0,
+            eta: torrent.eta ? torrent.eta : -1, // NOTE: Deluge reports an unknown ETA as 0.
+            hash,
+            infohash_v1: hash,
+            infohash_v2: "",
+            is_private: !!torrent.private,
+            last_seen: -1,
+            name: torrent.name ?? hash,
+            nb_connections: (torrent.num_peers ?? 0) + (torrent.num_seeds ?? 0),
+            nb_connections_limit: torrent.max_connections ?? -1,
+            peers: torrent.num_peers ?? 0,
+            peers_total: torrent.total_peers ?? -1,
+            piece_size: pieceLength,
+            pieces_have: pieceLength ? Math.floor((torrent.total_done ?? 0) / pieceLength) : 0,
+            pieces_num: torrent.num_pieces ?? 0,
+            reannounce: torrent.next_announce ?? 0,
+            save_path: torrent.save_path ?? "",
+            seeding_time: torrent.seeding_time ?? 0,
+            seeds: torrent.num_seeds ?? 0,
+            seeds_total: torrent.total_seeds ?? -1,
+            share_ratio: Math.max(torrent.ratio ?? 0, 0),
+            time_elapsed: torrent.active_time ?? 0,
+            total_downloaded: torrent.all_time_download ?? 0,
+            total_downloaded_session: torrent.total_payload_download ?? 0,
+            total_size: torrent.total_size ?? 0,
+            total_uploaded: torrent.total_uploaded ?? 0,
+            total_uploaded_session: torrent.total_payload_upload ?? 0,
+            total_wasted: -1,
+            up_limit: torrent.max_upload_speed != null && torrent.max_upload_speed > 0 ? torrent.max_upload_speed * 1024 : -1,
+            up_speed: torrent.upload_payload_rate ?? 0,
+            up_speed_avg: torrent.seeding_time ? Math.floor((torrent.total_uploaded ?? 0) / torrent.seeding_time) : 0,
+         },
+         trackers: (torrent.trackers ?? []).map(tracker => {
+            const isCurrent = tracker.url === torrent.tracker;
+            return {
+               url: tracker.url,
+               status: !isCurrent ? TrackerStatus.NotContacted : isFailing ? TrackerStatus.NotWorking : TrackerStatus.Working,
+               tier: tracker.tier,
+               num_peers: -1,
+               num_seeds: -1,
+               num_leeches: -1,
+               num_downloaded: -1,
+               msg: isCurrent ? (torrent.tracker_status ?? "") : "",
+            };
+         }),
+         webseeds: [],
+      };
+   }
+
+   async getPieceStates(hash: string) {
+      await this.client.web.ensureConnected();
+      const torrent = await this.client.core.getTorrentStatus(hash, ["hash", "num_pieces", "pieces", "progress"]);
+      if (!torrent.hash) throw new Error(`Couldn't find ${hash} in the backend`);
+      if (!torrent.pieces) {
+         // NOTE: Deluge leaves out the pieces of seeding torrents, which have them all.
+         const state = torrent.progress === 100 ? PieceState.Downloaded : PieceState.Missing;
+         return Array.from({ length: torrent.num_pieces ?? 0 }, () => state);
+      }
+      return torrent.pieces.map(piece =>
+         piece === DelugePieceState.Completed
+            ? PieceState.Downloaded
+            : piece === DelugePieceState.Downloading
+              ? PieceState.Downloading
+              : PieceState.Missing,
+      );
+   }
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AddTorrentError, AddTransaction } from "@/lib/adapters";
+
+describe("AddTransaction", () => {
+   afterEach(() => {
+      vi.restoreAllMocks();
+   });
+
+   it("runs the steps and returns what they return, without undoing any", async () => {
+      const transaction = new AddTransaction("Name");
+      const undo = vi.fn();
+      expect(await transaction.step("add", async () => "hash", undo)).toBe("hash");
+      expect(await transaction.step("start", async () => undefined)).toBeUndefined();
+      expect(undo).not.toHaveBeenCalled();
+   });
+
+   it("undoes the steps before the one that failed, latest first, with what they returned", async () => {
+      const transaction = new AddTransaction("Name");
+      const undone: string[] = [];
+      await transaction.step(
+         "add",
+         async () => "hash",
+         async hash => undone.push(`add ${hash}`),
+      );
+      await transaction.step(
+         "queue",
+         async () => undefined,
+         async () => undone.push("queue"),
+      );
+      const cause = new Error("boom");
+      const error = await transaction.step("rename", () => Promise.reject(cause)).catch(e => e);
+      expect(error).toBeInstanceOf(AddTorrentError);
+      expect(error).toMatchObject({ message: "boom", step: "rename", rolledBack: true, cause });
+      expect(undone).toEqual(["queue", "add hash"]);
+   });
+
+   it("doesn't undo the step that failed", async () => {
+      const transaction = new AddTransaction("Name");
+      const undo = vi.fn();
+      const error = await transaction.step("add", () => Promise.reject(new Error("boom")), undo).catch(e => e);
+      expect(error).toMatchObject({ step: "add", rolledBack: true });
+      expect(undo).not.toHaveBeenCalled();
+   });
+
+   it("undoes the other steps, and says it didn't roll back, when undoing one fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const transaction = new AddTransaction("Name");
+      const undoAdd = vi.fn().mockResolvedValue(undefined);
+      await transaction.step("add", async () => "hash", undoAdd);
+      await transaction.step(
+         "queue",
+         async () => undefined,
+         () => Promise.reject(new Error("gone")),
+      );
+      const error = await transaction.step("start", () => Promise.reject(new Error("boom"))).catch(e => e);
+      expect(error).toMatchObject({ step: "start", rolledBack: false });
+      expect(undoAdd).toHaveBeenCalledWith("hash");
+   });
+
+   it("serializes the error for the add route", () => {
+      const error = new AddTorrentError("boom", "filePrio", true);
+      expect(error.toJSON()).toEqual({ error: "boom", step: "filePrio", rolledBack: true });
+   });
+});
@@ -0,0 +1,247 @@
+import { DelugeError } from "@/lib/deluge";
+import { QBittorrentError } from "@/lib/qbittorrent";
+import type { Category, ContentLayout, FilePriority, PieceState } from "@/lib/qbittorrent-types";
+import type { RegisteredBackend } from "@/lib/registry";
+import { TransmissionError } from "@/lib/transmission";
+import type { BackendCredentials, Torrent, TorrentDetails } from "@/lib/types";
+import { DelugeAdapter } from "./deluge";
+import { QBittorrentAdapter } from "./qbittorrent";
+import { TransmissionAdapter } from "./transmission";
+
+/**
+ * What the /api/v2/torrents/add route asks of a backend, independent of the torrent client behind it.
+ */
+export type AddTorrentRequest = {
+   addToTop: boolean; // whether to put the torrent at the top of the queue, rather than the bottom
+   category?: string; // created if it doesn't exist yet
+   contentLayout?: ContentLayout;
+   file?: Buffer; // the uploaded .torrent file, to add instead of url
+   filePaths: string[]; // the paths of the metadata's files, relative to the torrent's folder if it has one
+   filePriorities: Map<FilePriority, number[]>; // indices of the wanted files that aren't of normal priority, by priority
+   firstLastPiecePrio: boolean;
+   hash: string | null; // the info hash that the backend will know the torrent by, as per the metadata, if known
+   name: string;
+   paddingFiles: number[]; // indices, into the metadata's files, of the BEP 47 padding files, which qbittorrent doesn't count
+   paused: boolean; // whether to leave the torrent stopped once it is added
+   renames: FileRename[]; // applied in order, after adding the torrent stopped
+   savePath?: string;
+   sequential: boolean;
+   tags: string[]; // created if they don't exist yet
+   unwantedFiles: number[]; // indices, into the metadata's files, of the files not to download
+   url: string; // the .torrent URL or magnet link, or the latter for the uploaded file
+};
+
+/**
+ * Renames a file or folder, by its path as per AddTorrentRequest.filePaths.  Only the last part of the path changes, so the renames
+ * apply one after the other as long as the files come before the folders, and the deeper folders before the shallower ones.
+ */
+export type FileRename = {
+   isFolder: boolean;
+   newPath: string;
+   oldPath: string;
+};
+
+/**
+ * A torrent that the backend has, as found by its info hash.
+ */
+export type FoundTorrent = {
+   hash: string;
+   name: string;
+   trackers: string[]; // the URLs of its trackers, bar qbittorrent's DHT, PeX and LSD
+};
+
+/**
+ * Polls a backend for its transfers, tracking whatever incremental state the backend's API needs in between.
+ */
+export type TorrentSync = {
+   /**
+    * @returns every torrent in the backend, or null if nothing changed since the previous poll
+    */
+   poll(): Promise<Torrent[] | null>;
+   /**
+    * Forgets the incremental state so that the next poll fetches everything, eg after an error.
+    */
+   reset(): void;
+};
+
+/**
+ * The operations that the routes need from a torrent client, so that they work against any of them.
+ */
+export type BackendAdapter = {
+   login(username: string, password: string): Promise<void>;
+   logout(): Promise<void>;
+   /**
+    * Remembers the credentials without logging in, which happens lazily when the backend asks for it.
+    */
+   configure(credentials: BackendCredentials): void;
+   createSync(): TorrentSync;
+   /**
+    * Adds the torrent in steps, removing it again if a later step fails.
+    * @returns the info hash of the added torrent
+    * @throws AddTorrentError
+    */
+   addTorrent(request: AddTorrentRequest): Promise<string>;
+   /**
+    * @param hashes - the v1 and v2 info hashes of a torrent, in lowercase
+    * @returns the backend's torrent with any of the hashes, or null if none
+    */
+   findTorrent(hashes: string[]): Promise<FoundTorrent | null>;
+   /**
+    * Adds the trackers to the torrent, after the ones that it has.
+    */
+   addTrackers(hash: string, urls: string[]): Promise<void>;
+   stop(hashes: string[]): Promise<void>;
+   start(hashes: string[]): Promise<void>;
+   /**
+    * Starts the torrents regardless of the queueing limits.
+    */
+   forceStart(hashes: string[]): Promise<void>;
+   recheck(hashes: string[]): Promise<void>;
+   reannounce(hashes: string[]): Promise<void>;
+   delete(hashes: string[], deleteFiles: boolean): Promise<void>;
+   queueTop(hashes: string[]): Promise<void>;
+   queueUp(hashes: string[]): Promise<void>;
+   queueDown(hashes: string[]): Promise<void>;
+   queueBottom(hashes: string[]): Promise<void>;
+   /**
+    * @returns the categories by name, as per qbittorrent's torrents/categories
+    */
+   getCategories(): Promise<Record<string, Category>>;
+   getTags(): Promise<string[]>;
+   /**
+    * @returns the torrent's properties, trackers, peers, files and HTTP sources, with -1 for whatever the backend doesn't know
+    */
+   getDetails(hash: string): Promise<TorrentDetails>;
+   /**
+    * @returns the state of each of the torrent's pieces, as per qbittorrent's torrents/pieceStates
+    */
+   getPieceStates(hash: string): Promise<PieceState[]>;
+};
+
+/**
+ * @param backend
+ * @returns the adapter for the backend's type of torrent client
+ */
+export function getAdapter(backend: Pick<RegisteredBackend, "type" | "url">): BackendAdapter {
+   switch (backend.type) {
+      case "deluge":
+         return new DelugeAdapter(backend.url);
+      case "transmission":
+         return new TransmissionAdapter(backend.url);
+      default:
+         return new QBittorrentAdapter(backend.url);
+   }
+}
+
+/**
+ * Works out what the backend puts in front of the metadata's paths, eg the torrent's folder, from where it put the first file.
+ * @param path - the first file's path in the backend
+ * @param request
+ * @returns the prefix, eg "Torrent Name/", or "" if none
+ */
+export function getPathPrefix(path: string, request: Pick<AddTorrentRequest, "filePaths" | "name">): string {
+   const first = request.filePaths[0];
+   if (!path.endsWith(first)) throw new Error(`Couldn't find ${first} of ${request.name} in the backend`);
+   return path.slice(0, path.length - first.length);
+}
+
+/**
+ * The steps of BackendAdapter.addTorrent, not all of which apply to every backend:
+ * - add: adds the torrent, stopped unless it can start as is
+ * - find: waits for the backend to list the added torrent
+ * - filePrio: sets which files to download, and their priority
+ * - queue: moves the torrent to the top of the queue
+ * - label: sets the torrent's category
+ * - rename: renames the files and folders
+ * - start: starts the torrent
+ */
+export type AddTorrentStep = "add" | "filePrio" | "find" | "label" | "queue" | "rename" | "start";
+
+/**
+ * The single error type thrown by BackendAdapter.addTorrent so that the add route can tell which step failed, and whether the
+ * torrent was removed again.
+ */
+export class AddTorrentError extends Error {
+   /**
+    * @param message - human readable description of the failure, as per the cause
+    * @param step - the step that failed
+    * @param rolledBack - whether the steps before it were undone, ie nothing is left behind in the backend
+    * @param options - the cause, ie the error thrown by the step
+    */
+   constructor(
+      message: string,
+      readonly step: AddTorrentStep,
+      readonly rolledBack: boolean,
+      options?: ErrorOptions,
+   ) {
+      super(message, options);
+      this.name = "AddTorrentError";
+   }
+
+   toJSON() {
+      return { error: this.message, step: this.step, rolledBack: this.rolledBack };
+   }
+}
+
+/**
+ * Runs the steps of adding a torrent one after the other and, should one of them fail, undoes the ones before it, latest first, so
+ * that the backend isn't left with, say, a stopped torrent that nobody asked for.  Undoing an add leaves the files on disk, since
+ * the torrent may have been added onto data that was there already.
+ */
+export class AddTransaction {
+   private readonly undos: Array<{ step: AddTorrentStep; undo: () => Promise<unknown> }> = [];
+
+   constructor(readonly name: string) {}
+
+   /**
+    * @param step
+    * @param run
+    * @param undo - compensates for the step, given what it returned, should a later step fail
+    * @returns whatever run returns
+    * @throws AddTorrentError if run throws, once the previous steps are undone
+    */
+   async step<T>(step: AddTorrentStep, run: () => Promise<T>, undo?: (result: T) => Promise<unknown>): Promise<T> {
+      let result: T;
+      try {
+         result = await run();
+      } catch (e: any) {
+         const rolledBack = await this.rollback();
+         throw new AddTorrentError(e?.message ?? String(e), step, rolledBack, { cause: e });
+      }
+      if (undo) this.undos.unshift({ step, undo: () => undo(result) });
+      return result;
+   }
+
+   /**
+    * @returns whether every step was undone
+    */
+   private async rollback(): Promise<boolean> {
+      let rolledBack = true;
+      for (const { step, undo } of this.undos.splice(0)) {
+         try {
+            await undo();
+         } catch (e) {
+            console.error(`Failed to undo the ${step} step of ${this.name}:`, e);
+            rolledBack = false;
+         }
+      }
+      return rolledBack;
+   }
+}
+
+/**
+ * @param e
+ * @returns whether e was thrown by one of the backend clients, as opposed to, say, a bug
+ */
+export function isBackendError(e: unknown): e is DelugeError | QBittorrentError | TransmissionError {
+   return e instanceof DelugeError || e instanceof QBittorrentError || e instanceof TransmissionError;
+}
+
+/**
+ * @param e
+ * @returns the HTTP status to respond with for e, ie the backend's own status if it is an error, else 500, since the backends
+ * reject some requests with a 200, eg Transmission and Deluge whenever an RPC fails, which mustn't pass for a success
+ */
+export function getErrorStatus(e: unknown): number {
+   return isBackendError(e) && e.status >= 400 ? e.status : 500;
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddTorrentRequest } from "@/lib/adapters";
+import { FilePriority } from "@/lib/qbittorrent-types";
+import { QBittorrentAdapter } from "./qbittorrent";
+
+const HASH = "0123456789abcdef0123456789abcdef01234567";
+
+const request: AddTorrentRequest = {
+   addToTop: false,
+   filePaths: ["a.txt", "b.txt"],
+   filePriorities: new Map(),
+   firstLastPiecePrio: false,
+   hash: HASH,
+   name: "Name",
+   paddingFiles: [],
+   paused: false,
+   renames: [{ isFolder: false, oldPath: "a.txt", newPath: "c.txt" }],
+   sequential: false,
+   tags: [],
+   unwantedFiles: [1],
+   url: "https://example.org/name.torrent",
+};
+
+/**
+ * @returns a stand-in for QBittorrentClient, whose every call succeeds, and that lists the added torrent as the latest
+ */
+const createClient = () => ({
+   torrents: {
+      add: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+      filePrio: vi.fn().mockResolvedValue(undefined),
+      files: vi.fn().mockResolvedValue([{ index: 0, name: "Name/a.txt" }]),
+      info: vi.fn(async ({ hashes }: { hashes?: string[] }) => (hashes ? [] : [{ hash: HASH }])),
+      renameFile: vi.fn().mockResolvedValue(undefined),
+      renameFolder: vi.fn().mockResolvedValue(undefined),
+      start: vi.fn().mockResolvedValue(undefined),
+   },
+});
+
+type Client = ReturnType<typeof createClient>;
+
+describe("QBittorrentAdapter.addTorrent", () => {
+   let client: Client;
+   let adapter: QBittorrentAdapter;
+
+   // NOTE: The find step polls every 100ms, so run the timers rather than wait for them.
+   const addTorrent = async () => {
+      const result = adapter.addTorrent(request).catch(e => e);
+      await vi.runAllTimersAsync();
+      return result;
+   };
+
+   beforeEach(() => {
+      vi.useFakeTimers();
+      client = createClient();
+      adapter = new QBittorrentAdapter("http://qbittorrent");
+      Object.assign(adapter, { client });
+   });
+
+   afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+   });
+
+   it("adds the torrent stopped, cherry-picks and renames its files and then starts it", async () => {
+      expect(await addTorrent()).toBe(HASH);
+      expect(client.torrents.add).toHaveBeenCalledWith(expect.objectContaining({ stopped: true }));
+      expect(client.torrents.filePrio).toHaveBeenCalledWith(HASH, [1], FilePriority.DoNotDownload);
+      expect(client.torrents.renameFile).toHaveBeenCalledWith(HASH, "Name/a.txt", "Name/c.txt");
+      expect(client.torrents.start).toHaveBeenCalledWith([HASH]);
+      expect(client.torrents.delete).not.toHaveBeenCalled();
+   });
+
+   it("leaves nothing to roll back when adding fails", async () => {
+      client.torrents.add.mockRejectedValue(new Error("boom"));
+      expect(await addTorrent()).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.torrents.delete).not.toHaveBeenCalled();
+   });
+
+   it("leaves an existing torrent be", async () => {
+      client.torrents.info.mockResolvedValue([{ hash: HASH }]);
+      expect(await addTorrent()).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.torrents.add).not.toHaveBeenCalled();
+      expect(client.torrents.delete).not.toHaveBeenCalled();
+   });
+
+   it.each([
+      ["find", (client: Client) => client.torrents.info.mockResolvedValue([])],
+      ["filePrio", (client: Client) => client.torrents.filePrio.mockRejectedValue(new Error("boom"))],
+      ["rename", (client: Client) => client.torrents.renameFile.mockRejectedValue(new Error("boom"))],
+      ["start", (client: Client) => client.torrents.start.mockRejectedValue(new Error("boom"))],
+   ])("removes the torrent, but not its files, when the %s step fails", async (step, fail) => {
+      fail(client);
+      expect(await addTorrent()).toMatchObject({ step, rolledBack: true });
+      expect(client.torrents.delete).toHaveBeenCalledExactlyOnceWith([HASH], false);
+   });
+
+   it("says it didn't roll back when removing the torrent fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      client.torrents.start.mockRejectedValue(new Error("boom"));
+      client.torrents.delete.mockRejectedValue(new Error("gone"));
+      expect(await addTorrent()).toMatchObject({ step: "start", rolledBack: false });
+   });
+});
+
+describe("QBittorrentAdapter.findTorrent", () => {
+   const OTHER_HASH = "1".repeat(40);
+   const V2_HASH = "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210";
+   let adapter: QBittorrentAdapter;
+
+   beforeEach(() => {
+      const info = [
+         { hash: OTHER_HASH, infohash_v1: OTHER_HASH, infohash_v2: "", name: "Other" },
+         { hash: HASH, infohash_v1: HASH, infohash_v2: V2_HASH, name: "Hybrid" },
+      ];
+      const trackers = [
+         { tier: -1, url: "** [DHT] **" },
+         { tier: 0, url: "https://tracker.example.org/announce" },
+      ];
+      adapter = new QBittorrentAdapter("http://qbittorrent");
+      Object.assign(adapter, {
+         client: { torrents: { info: vi.fn().mockResolvedValue(info), trackers: vi.fn().mockResolvedValue(trackers) } },
+      });
+   });
+
+   it.each([
+      ["v1", HASH],
+      ["v2", V2_HASH],
+   ])("finds the torrent by its %s hash, with its trackers bar DHT, PeX and LSD", async (_, hash) => {
+      expect(await adapter.findTorrent([hash])).toEqual({
+         hash: HASH,
+         name: "Hybrid",
+         trackers: ["https://tracker.example.org/announce"],
+      });
+   });
+
+   it("finds nothing for other hashes", async () => {
+      expect(await adapter.findTorrent(["2".repeat(40)])).toBeNull();
+   });
+});
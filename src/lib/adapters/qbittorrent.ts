@@ -0,0 +1,231 @@
+import { QBittorrentClient } from "@/lib/qbittorrent";
+import { FilePriority, type TorrentInfo, type TorrentPeer } from "@/lib/qbittorrent-types";
+import { configure } from "@/lib/session";
+import { fromTorrentInfo } from "@/lib/torrents";
+import type { BackendCredentials, TorrentDetails } from "@/lib/types";
+import {
+   AddTransaction,
+   getPathPrefix,
+   type AddTorrentRequest,
+   type BackendAdapter,
+   type FoundTorrent,
+   type TorrentSync,
+} from "./index";
+
+/**
+ * Adapts QBittorrentClient to BackendAdapter.
+ */
+export class QBittorrentAdapter implements BackendAdapter {
+   readonly client: QBittorrentClient;
+
+   constructor(readonly backendUrl: string) {
+      this.client = new QBittorrentClient(backendUrl);
+   }
+
+   login(username: string, password: string) {
+      return this.client.auth.login(username, password);
+   }
+
+   logout() {
+      return this.client.auth.logout();
+   }
+
+   configure(credentials: BackendCredentials) {
+      configure(this.backendUrl, credentials);
+   }
+
+   /**
+    * Polls /api/v2/sync/maindata and merges its incremental updates.
+    */
+   createSync(): TorrentSync {
+      const infos = new Map<string, Partial<TorrentInfo>>();
+      let rid = 0;
+      return {
+         poll: async () => {
+            const maindata = await this.client.sync.maindata(rid);
+            const updated = maindata.torrents ?? {};
+            const removed = maindata.torrents_removed ?? [];
+            const isChanged = maindata.full_update || removed.length > 0 || Object.keys(updated).length > 0;
+
+            if (maindata.full_update) infos.clear();
+            for (const [hash, partial] of Object.entries(updated)) {
+               infos.set(hash, { ...infos.get(hash), ...partial });
+            }
+            for (const hash of removed) {
+               infos.delete(hash);
+            }
+            rid = maindata.rid;
+
+            return isChanged ? Array.from(infos, ([hash, info]) => fromTorrentInfo(hash, info)) : null;
+         },
+         reset: () => {
+            rid = 0; // NOTE: Ask for a full update next time since the incremental state may be stale.
+         },
+      };
+   }
+
+   async addTorrent(request: AddTorrentRequest): Promise<string> {
+      const client = this.client;
+      const hash = request.hash;
+      if (!hash) throw new Error(`Missing the hash of ${request.name}`);
+
+      const transaction = new AddTransaction(request.name);
+
+      // Add the torrent in a stopped state...
+      await transaction.step(
+         "add",
+         async () => {
+            // NOTE: qbittorrent may well answer Ok. for a duplicate, which rolling back would then delete.
+            const existing = await client.torrents.info({ hashes: [hash] });
+            if (existing.length) throw new Error(`${request.name} already exists in the backend`);
+            await client.torrents.add({
+               ...(request.file ? { torrents: [new Blob([request.file])] } : { urls: [request.url] }),
+               savepath: request.savePath,
+               stopped: true, // NOTE: Always start stopped so that files can be cherry-picked.
+               sequentialDownload: request.sequential,
+               firstLastPiecePrio: request.firstLastPiecePrio,
+               contentLayout: request.contentLayout,
+               addToTopOfQueue: request.addToTop,
+               category: request.category || undefined, // NOTE: qbittorrent creates the category, and tags, if need be.
+               tags: request.tags,
+            });
+         },
+         () => client.torrents.delete([hash], false),
+      );
+
+      // ...then wait for the backend to get updated...
+      await transaction.step("find", async () => {
+         let retrys = 10; // HARD-CODED
+         do {
+            await new Promise(resolve => {
+               setTimeout(resolve, 100);
+            }); // HARD-CODED
+            try {
+               const entry = await client.torrents.info({ limit: 1, sort: "added_on", reverse: true });
+               if (entry.length && entry[0].hash === hash) break;
+            } catch (e) {
+               // no-op: just wait for the backend to get updated
+            }
+         } while (--retrys);
+
+         if (!retrys) throw new Error(`Couldn't find ${request.name} in the backend after many retries!`);
+      });
+
+      // ...then cherry-pick the files, by qbittorrent's indices, which skip the padding files...
+      const toIndex = (i: number) => i - request.paddingFiles.filter(padding => padding < i).length;
+      await transaction.step("filePrio", async () => {
+         if (request.unwantedFiles.length)
+            await client.torrents.filePrio(hash, request.unwantedFiles.map(toIndex), FilePriority.DoNotDownload);
+         for (const [priority, files] of request.filePriorities) {
+            await client.torrents.filePrio(hash, files.map(toIndex), priority);
+         }
+      });
+
+      // ...then rename them, while there's nothing on disk yet...
+      if (request.renames.length) {
+         await transaction.step("rename", async () => {
+            const first = (await client.torrents.files(hash)).find(file => file.index === 0);
+            if (!first) throw new Error(`Can't rename the files of ${request.name} before the backend has its metadata`);
+            const prefix = getPathPrefix(first.name, request);
+            for (const { isFolder, oldPath, newPath } of request.renames) {
+               const rename = isFolder ? client.torrents.renameFolder : client.torrents.renameFile;
+               await rename(hash, prefix + oldPath, prefix + newPath); // NOTE: qbittorrent answers 409 for a conflicting name.
+            }
+         });
+      }
+
+      // ...and, finally, kick-off the download unless explicitly asked not to do so.
+      if (!request.paused) await transaction.step("start", () => client.torrents.start([hash]));
+
+      return hash;
+   }
+
+   async findTorrent(hashes: string[]): Promise<FoundTorrent | null> {
+      const wanted = new Set(hashes);
+      // NOTE: Go through every torrent since torrents/info only filters by the hash, ie the v1 one of the hybrid torrents.
+      const info = (await this.client.torrents.info()).find(
+         info => wanted.has(info.hash) || wanted.has(info.infohash_v1) || wanted.has(info.infohash_v2),
+      );
+      if (!info) return null;
+      const trackers = await this.client.torrents.trackers(info.hash);
+      return {
+         hash: info.hash,
+         name: info.name,
+         trackers: trackers.filter(tracker => tracker.tier >= 0).map(tracker => tracker.url), // NOTE: DHT, PeX and LSD are tier -1.
+      };
+   }
+
+   addTrackers(hash: string, urls: string[]) {
+      return this.client.torrents.addTrackers(hash, urls);
+   }
+
+   stop(hashes: string[]) {
+      return this.client.torrents.stop(hashes);
+   }
+
+   start(hashes: string[]) {
+      return this.client.torrents.start(hashes);
+   }
+
+   forceStart(hashes: string[]) {
+      return this.client.torrents.setForceStart(hashes, true);
+   }
+
+   recheck(hashes: string[]) {
+      return this.client.torrents.recheck(hashes);
+   }
+
+   reannounce(hashes: string[]) {
+      return this.client.torrents.reannounce(hashes);
+   }
+
+   delete(hashes: string[], deleteFiles: boolean) {
+      return this.client.torrents.delete(hashes, deleteFiles);
+   }
+
+   queueTop(hashes: string[]) {
+      return this.client.torrents.topPrio(hashes);
+   }
+
+   queueUp(hashes: string[]) {
+      return this.client.torrents.increasePrio(hashes);
+   }
+
+   queueDown(hashes: string[]) {
+      return this.client.torrents.decreasePrio(hashes);
+   }
+
+   queueBottom(hashes: string[]) {
+      return this.client.torrents.bottomPrio(hashes);
+   }
+
+   getCategories() {
+      return this.client.torrents.categories();
+   }
+
+   getTags() {
+      return this.client.torrents.tags();
+   }
+
+   async getDetails(hash: string): Promise<TorrentDetails> {
+      const client = this.client;
+      const [properties, trackers, peers, files, webseeds] = await Promise.all([
+         client.torrents.properties(hash),
+         client.torrents.trackers(hash),
+         client.sync.torrentPeers(hash), // NOTE: rid 0 always gets the full list, so there's no state to track.
+         client.torrents.files(hash),
+         client.torrents.webseeds(hash),
+      ]);
+      return {
+         files: files.map(({ name, progress, size, piece_range }) => ({ name, progress, size, piece_range })),
+         peers: Object.values(peers.peers ?? {}) as TorrentPeer[],
+         properties,
+         trackers,
+         webseeds,
+      };
+   }
+
+   getPieceStates(hash: string) {
+      return this.client.torrents.pieceStates(hash);
+   }
+}
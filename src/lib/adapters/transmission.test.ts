@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddTorrentRequest } from "@/lib/adapters";
+import { TransmissionAdapter } from "./transmission";
+
+const HASH = "0123456789abcdef0123456789abcdef01234567";
+
+const request: AddTorrentRequest = {
+   addToTop: true,
+   filePaths: ["a.txt", "b.txt"],
+   filePriorities: new Map(),
+   firstLastPiecePrio: false,
+   hash: HASH,
+   name: "Name",
+   paddingFiles: [],
+   paused: false,
+   renames: [{ isFolder: false, oldPath: "a.txt", newPath: "c.txt" }],
+   sequential: false,
+   tags: [],
+   unwantedFiles: [1],
+   url: "https://example.org/name.torrent",
+};
+
+/**
+ * @returns a stand-in for TransmissionClient, whose every call succeeds
+ */
+const createClient = () => ({
+   queue: {
+      moveTop: vi.fn().mockResolvedValue(undefined),
+   },
+   torrents: {
+      add: vi.fn().mockResolvedValue({ hashString: HASH, isDuplicate: false }),
+      get: vi.fn().mockResolvedValue({ torrents: [{ files: [{ name: "Name/a.txt" }, { name: "Name/b.txt" }] }] }),
+      remove: vi.fn().mockResolvedValue(undefined),
+      renamePath: vi.fn().mockResolvedValue(undefined),
+      start: vi.fn().mockResolvedValue(undefined),
+   },
+});
+
+type Client = ReturnType<typeof createClient>;
+
+describe("TransmissionAdapter.addTorrent", () => {
+   let client: Client;
+   let adapter: TransmissionAdapter;
+
+   beforeEach(() => {
+      client = createClient();
+      adapter = new TransmissionAdapter("http://transmission");
+      Object.assign(adapter, { client });
+   });
+
+   afterEach(() => {
+      vi.restoreAllMocks();
+   });
+
+   it("adds the torrent paused, queues it and renames its files and then starts it", async () => {
+      expect(await adapter.addTorrent(request)).toBe(HASH);
+      expect(client.torrents.add).toHaveBeenCalledWith(expect.objectContaining({ "paused": true, "files-unwanted": [1] }));
+      expect(client.queue.moveTop).toHaveBeenCalledWith([HASH]);
+      expect(client.torrents.renamePath).toHaveBeenCalledWith(HASH, "Name/a.txt", "c.txt");
+      expect(client.torrents.start).toHaveBeenCalledWith([HASH]);
+      expect(client.torrents.remove).not.toHaveBeenCalled();
+   });
+
+   it("leaves nothing to roll back when adding fails", async () => {
+      client.torrents.add.mockRejectedValue(new Error("boom"));
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.torrents.remove).not.toHaveBeenCalled();
+   });
+
+   it("leaves an existing torrent be", async () => {
+      client.torrents.add.mockResolvedValue({ hashString: HASH, isDuplicate: true });
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "add", rolledBack: true });
+      expect(client.torrents.remove).not.toHaveBeenCalled();
+   });
+
+   it.each([
+      ["queue", (client: Client) => client.queue.moveTop.mockRejectedValue(new Error("boom"))],
+      ["rename", (client: Client) => client.torrents.renamePath.mockRejectedValue(new Error("boom"))],
+      ["start", (client: Client) => client.torrents.start.mockRejectedValue(new Error("boom"))],
+   ])("removes the torrent, but not its files, when the %s step fails", async (step, fail) => {
+      fail(client);
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step, rolledBack: true });
+      expect(client.torrents.remove).toHaveBeenCalledExactlyOnceWith([HASH], false);
+   });
+
+   it("says it didn't roll back when removing the torrent fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      client.torrents.start.mockRejectedValue(new Error("boom"));
+      client.torrents.remove.mockRejectedValue(new Error("gone"));
+      expect(await adapter.addTorrent(request).catch(e => e)).toMatchObject({ step: "start", rolledBack: false });
+   });
+});
@@ -0,0 +1,418 @@
+import { formatSize, getResolution, getSeries } from "@/lib/torrents";
+import { TransmissionClient } from "@/lib/transmission";
+import {
+   TrackerState,
+   TransmissionStatus,
+   type TransmissionTorrent,
+   type TransmissionTorrentField,
+   type TransmissionTrackerStats,
+} from "@/lib/transmission-types";
+import type { BackendCredentials, Torrent, TorrentDetails, TorrentStatus } from "@/lib/types";
+import { PieceState, TrackerStatus, type Category, type TorrentTracker } from "@/lib/qbittorrent-types";
+import {
+   AddTransaction,
+   getPathPrefix,
+   type AddTorrentRequest,
+   type BackendAdapter,
+   type FoundTorrent,
+   type TorrentSync,
+} from "./index";
+
+const FIELDS: TransmissionTorrentField[] = [
+   "addedDate",
+   "error",
+   "eta",
+   "hashString",
+   "id",
+   "isFinished",
+   "labels",
+   "name",
+   "percentDone",
+   "queuePosition",
+   "rateDownload",
+   "rateUpload",
+   "status",
+   "totalSize",
+   "uploadRatio",
+];
+
+const DETAIL_FIELDS: TransmissionTorrentField[] = [
+   "addedDate",
+   "comment",
+   "corruptEver",
+   "creator",
+   "dateCreated",
+   "doneDate",
+   "downloadDir",
+   "downloadedEver",
+   "downloadLimit",
+   "downloadLimited",
+   "eta",
+   "files",
+   "hashString",
+   "haveValid",
+   "isPrivate",
+   "name",
+   "peers",
+   "peersConnected",
+   "peersGettingFromUs",
+   "peersSendingToUs",
+   "pieceCount",
+   "pieceSize",
+   "rateDownload",
+   "rateUpload",
+   "secondsDownloading",
+   "secondsSeeding",
+   "totalSize",
+   "trackerStats",
+   "uploadedEver",
+   "uploadLimit",
+   "uploadLimited",
+   "uploadRatio",
+   "webseeds",
+];
+
+/**
+ * Maps Transmission's torrent status onto the handful of statuses that the UI distinguishes.
+ * @param torrent
+ * @returns the UI status
+ */
+const getStatus = (torrent: Partial<TransmissionTorrent>): TorrentStatus => {
+   if (torrent.error === 3) return "error"; // NOTE: Tracker warnings and errors, 1 and 2, don't stop the transfer.
+   switch (torrent.status) {
+      case TransmissionStatus.Stopped:
+         return torrent.percentDone === 1 ? "completed" : "paused";
+      case TransmissionStatus.SeedWait:
+      case TransmissionStatus.Seed:
+         return "seeding";
+      default:
+         return "downloading";
+   }
+};
+
+/**
+ * Converts a Transmission torrent, as per torrent-get, into a Torrent for the table.
+ * @param torrent
+ * @returns the Torrent
+ */
+const fromTransmissionTorrent = (torrent: Partial<TransmissionTorrent>): Torrent => {
+   const hash = torrent.hashString ?? String(torrent.id);
+   const name = torrent.name ?? hash;
+   const series = getSeries(name);
+   const resolution = getResolution(name);
+   return {
+      added_on: torrent.addedDate ?? 0,
+      bytes: torrent.totalSize ?? null,
+      category: torrent.labels?.[0] ?? "", // NOTE: Transmission has labels instead of categories.
+      dlspeed: torrent.rateDownload ?? 0,
+      eta: torrent.eta == null || torrent.eta < 0 ? -1 : torrent.eta,
+      feed: "",
+      hash: hash,
+      id: hash,
+      is_read: false, // NOTE: Only feed articles are read or unread.
+      is_series: series != null,
+      metadata: null,
+      name: name,
+      priority: torrent.queuePosition != null ? torrent.queuePosition + 1 : 0, // NOTE: Transmission counts from 0.
+      progress: torrent.percentDone ?? 0,
+      ratio: Math.max(torrent.uploadRatio ?? 0, 0), // NOTE: Transmission reports -1 for not available and -2 for infinite.
+      resolution: resolution,
+      series: series,
+      size: torrent.totalSize != null ? formatSize(torrent.totalSize) : "?",
+      status: getStatus(torrent),
+      upspeed: torrent.rateUpload ?? 0,
+   };
+};
+
+/**
+ * Transmission only has labels, so the category goes first, as per fromTransmissionTorrent, followed by the tags.
+ * @param request
+ * @returns the labels, if any
+ */
+const getLabels = ({ category, tags }: Pick<AddTorrentRequest, "category" | "tags">): string[] | undefined => {
+   const labels = Array.from(new Set([category ?? "", ...tags])).filter(Boolean);
+   return labels.length ? labels : undefined;
+};
+
+/**
+ * Converts a Transmission tracker, as per torrent-get's trackerStats, into a qbittorrent one for the details panel.
+ * @param tracker
+ * @returns the tracker
+ */
+const fromTrackerStats = (tracker: TransmissionTrackerStats): TorrentTracker => ({
+   url: tracker.announce,
+   status: !tracker.hasAnnounced
+      ? TrackerStatus.NotContacted
+      : tracker.announceState === TrackerState.Active
+        ? TrackerStatus.Updating
+        : tracker.lastAnnounceSucceeded
+          ? TrackerStatus.Working
+          : TrackerStatus.NotWorking,
+   tier: tracker.tier,
+   num_peers: tracker.hasAnnounced ? tracker.lastAnnouncePeerCount : -1,
+   num_seeds: tracker.seederCount,
+   num_leeches: tracker.leecherCount,
+   num_downloaded: tracker.downloadCount,
+   msg: tracker.lastAnnounceResult,
+});
+
+/**
+ * Adapts TransmissionClient to BackendAdapter.
+ */
+export class TransmissionAdapter implements BackendAdapter {
+   readonly client: TransmissionClient;
+
+   constructor(readonly backendUrl: string) {
+      this.client = new TransmissionClient(backendUrl);
+   }
+
+   login(username: string, password: string) {
+      return this.client.auth.login(username, password);
+   }
+
+   async logout() {
+      this.client.auth.logout();
+   }
+
+   configure(credentials: BackendCredentials) {
+      this.client.auth.configure(credentials);
+   }
+
+   /**
+    * Polls torrent-get, for every torrent at first and then for just the recently active and removed ones.
+    */
+   createSync(): TorrentSync {
+      const torrents = new Map<number, Partial<TransmissionTorrent>>();
+      let isFull = true;
+      return {
+         poll: async () => {
+            const result = await this.client.torrents.get(FIELDS, isFull ? undefined : "recently-active");
+            const removed = result.removed ?? [];
+            const isChanged = isFull || removed.length > 0 || result.torrents.length > 0;
+
+            if (isFull) torrents.clear();
+            for (const torrent of result.torrents) {
+               torrents.set(torrent.id!, { ...torrents.get(torrent.id!), ...torrent });
+            }
+            for (const id of removed) {
+               torrents.delete(id);
+            }
+            isFull = false;
+
+            return isChanged ? Array.from(torrents.values(), fromTransmissionTorrent) : null;
+         },
+         reset: () => {
+            isFull = true;
+         },
+      };
+   }
+
+   async addTorrent(request: AddTorrentRequest): Promise<string> {
+      // NOTE: Transmission takes the unwanted files up front, so there's no need to add stopped and cherry-pick afterwards like
+      // with qbittorrent.  It has no equivalent of firstLastPiecePrio and contentLayout, so they're ignored.
+      const high = Array.from(request.filePriorities.values()).flat(); // NOTE: Transmission has nothing above high.
+      const transaction = new AddTransaction(request.name);
+      const hash = await transaction.step(
+         "add",
+         async () => {
+            const added = await this.client.torrents.add({
+               ...(request.file ? { metainfo: request.file.toString("base64") } : { filename: request.url }),
+               "download-dir": request.savePath || undefined,
+               "paused": request.paused || request.renames.length > 0, // NOTE: Rename before anything lands on disk.
+               "files-unwanted": request.unwantedFiles.length ? request.unwantedFiles : undefined,
+               "priority-high": high.length ? high : undefined,
+               "sequential_download": request.sequential || undefined,
+               "labels": getLabels(request),
+            });
+            // NOTE: Throw from within the step so that rolling back leaves the existing torrent be.
+            if (added.isDuplicate) throw new Error(`${request.name} already exists in the backend`);
+            return added.hashString;
+         },
+         hash => this.client.torrents.remove([hash], false),
+      );
+      // NOTE: torrent-add always queues at the bottom.
+      if (request.addToTop) await transaction.step("queue", () => this.client.queue.moveTop([hash]));
+      if (request.renames.length) {
+         await transaction.step("rename", async () => {
+            const [torrent] = (await this.client.torrents.get(["files"], [hash])).torrents;
+            const first = torrent?.files?.[0];
+            if (!first) throw new Error(`Can't rename the files of ${request.name} before the backend has its metadata`);
+            const prefix = getPathPrefix(first.name, request);
+            for (const { oldPath, newPath } of request.renames) {
+               await this.client.torrents.renamePath(hash, prefix + oldPath, newPath.split("/").pop()!);
+            }
+         });
+         if (!request.paused) await transaction.step("start", () => this.client.torrents.start([hash]));
+      }
+
+      return hash;
+   }
+
+   // NOTE: Transmission accepts hashes wherever it takes torrent ids.
+
+   async findTorrent(hashes: string[]): Promise<FoundTorrent | null> {
+      // NOTE: Transmission leaves out the ids it doesn't have, rather than fail.
+      const [torrent] = (await this.client.torrents.get(["hashString", "name", "trackerStats"], hashes)).torrents;
+      if (!torrent?.hashString) return null;
+      return {
+         hash: torrent.hashString,
+         name: torrent.name ?? torrent.hashString,
+         trackers: (torrent.trackerStats ?? []).map(stats => stats.announce),
+      };
+   }
+
+   addTrackers(hash: string, urls: string[]) {
+      return this.client.torrents.set({ ids: [hash], trackerAdd: urls });
+   }
+
+   stop(hashes: string[]) {
+      return this.client.torrents.stop(hashes);
+   }
+
+   start(hashes: string[]) {
+      return this.client.torrents.start(hashes);
+   }
+
+   forceStart(hashes: string[]) {
+      return this.client.torrents.startNow(hashes);
+   }
+
+   recheck(hashes: string[]) {
+      return this.client.torrents.verify(hashes);
+   }
+
+   reannounce(hashes: string[]) {
+      return this.client.torrents.reannounce(hashes);
+   }
+
+   delete(hashes: string[], deleteFiles: boolean) {
+      return this.client.torrents.remove(hashes, deleteFiles);
+   }
+
+   queueTop(hashes: string[]) {
+      return this.client.queue.moveTop(hashes);
+   }
+
+   queueUp(hashes: string[]) {
+      return this.client.queue.moveUp(hashes);
+   }
+
+   queueDown(hashes: string[]) {
+      return this.client.queue.moveDown(hashes);
+   }
+
+   queueBottom(hashes: string[]) {
+      return this.client.queue.moveBottom(hashes);
+   }
+
+   // NOTE: Transmission keeps no list of labels, so gather the ones in use.
+
+   async getCategories() {
+      const { torrents } = await this.client.torrents.get(["labels"]);
+      const names = new Set(torrents.map(torrent => torrent.labels?.[0]).filter(Boolean) as string[]);
+      return Object.fromEntries(Array.from(names, name => [name, { name, savePath: "" } as Category]));
+   }
+
+   async getTags() {
+      const { torrents } = await this.client.torrents.get(["labels"]);
+      return Array.from(new Set(torrents.flatMap(torrent => torrent.labels?.slice(1) ?? []))).sort();
+   }
+
+   async getDetails(hash: string): Promise<TorrentDetails> {
+      const [torrent] = (await this.client.torrents.get(DETAIL_FIELDS, [hash])).torrents;
+      if (!torrent) throw new Error(`Couldn't find ${hash} in the backend`);
+
+      const trackers = (torrent.trackerStats ?? []).map(fromTrackerStats);
+      const now = Math.floor(Date.now() / 1000);
+      const nextAnnounce = Math.min(
+         ...(torrent.trackerStats ?? []).map(tracker => tracker.nextAnnounceTime).filter(time => time > now),
+      );
+      const downloaded = torrent.downloadedEver ?? 0;
+      const uploaded = torrent.uploadedEver ?? 0;
+      const pieceSize = torrent.pieceSize ?? 0;
+      // NOTE: Transmission's speed limits are in kB/s, and it only has totals since the torrent was added, not per session.
+      return {
+         files: (torrent.files ?? []).map(file => ({
+            name: file.name,
+            // NOTE: Transmission only reports the pieces since 4.0, and then the one after the file's last piece.
+            piece_range:
+               file.beginPiece !== undefined && file.endPiece !== undefined
+                  ? [file.beginPiece, Math.max(file.endPiece - 1, file.beginPiece)]
+                  : undefined,
+            progress: file.length ? file.bytesCompleted / file.length : 1,
+            size: file.length,
+         })),
+         peers: (torrent.peers ?? []).map(peer => ({
+            client: peer.clientName,
+            connection: peer.isUTP ? "μTP" : "BT",
+            country: "",
+            country_code: "",
+            dl_speed: peer.rateToClient,
+            downloaded: -1,
+            files: "",
+            flags: peer.flagStr,
+            flags_desc: "",
+            ip: peer.address,
+            port: peer.port,
+            progress: peer.progress,
+            relevance: -1,
+            up_speed: peer.rateToPeer,
+            uploaded: -1,
+         })),
+         properties: {
+            addition_date: torrent.addedDate ?? -1,
+            comment: torrent.comment ?? "",
+            completion_date: torrent.doneDate || -1,
+            created_by: torrent.creator ?? "",
+            creation_date: torrent.dateCreated || -1,
+            dl_limit: torrent.downloadLimited ? (torrent.downloadLimit ?? 0) * 1000 : -1,
+            dl_speed: torrent.rateDownload ?? 0,
+            dl_speed_avg: torrent.secondsDownloading ? Math.floor(downloaded / torrent.secondsDownloading) : 0,
+            eta: torrent.eta == null || torrent.eta < 0 ? -1 : torrent.eta,
+            hash: torrent.hashString ?? hash,
+            infohash_v1: torrent.hashString ?? hash,
+            infohash_v2: "",
+            is_private: !!torrent.isPrivate,
+            last_seen: -1,
+            name: torrent.name ?? hash,
+            nb_connections: torrent.peersConnected ?? 0,
+            nb_connections_limit: -1,
+            peers: torrent.peersGettingFromUs ?? 0,
+            peers_total: Math.max(-1, ...trackers.map(tracker => tracker.num_leeches)),
+            piece_size: pieceSize,
+            pieces_have: pieceSize ? Math.floor((torrent.haveValid ?? 0) / pieceSize) : 0,
+            pieces_num: torrent.pieceCount ?? 0,
+            reannounce: isFinite(nextAnnounce) ? nextAnnounce - now : 0,
+            save_path: torrent.downloadDir ?? "",
+            seeding_time: torrent.secondsSeeding ?? 0,
+            seeds: torrent.peersSendingToUs ?? 0,
+            seeds_total: Math.max(-1, ...trackers.map(tracker => tracker.num_seeds)),
+            share_ratio: Math.max(torrent.uploadRatio ?? 0, 0),
+            time_elapsed: (torrent.secondsDownloading ?? 0) + (torrent.secondsSeeding ?? 0),
+            total_downloaded: downloaded,
+            total_downloaded_session: downloaded,
+            total_size: torrent.totalSize ?? 0,
+            total_uploaded: uploaded,
+            total_uploaded_session: uploaded,
+            total_wasted: torrent.corruptEver ?? 0,
+            up_limit: torrent.uploadLimited ? (torrent.uploadLimit ?? 0) * 1000 : -1,
+            up_speed: torrent.rateUpload ?? 0,
+            up_speed_avg: torrent.secondsSeeding ? Math.floor(uploaded / torrent.secondsSeeding) : 0,
+         },
+         trackers,
+         webseeds: (torrent.webseeds ?? []).map(url => ({ url })),
+      };
+   }
+
+   /**
+    * Transmission only tells which pieces are done, so none are ever reported as downloading.
+    */
+   async getPieceStates(hash: string) {
+      const [torrent] = (await this.client.torrents.get(["pieceCount", "pieces"], [hash])).torrents;
+      if (!torrent) throw new Error(`Couldn't find ${hash} in the backend`);
+      const bitfield = Buffer.from(torrent.pieces ?? "", "base64");
+      return Array.from({ length: torrent.pieceCount ?? 0 }, (_, i) =>
+         bitfield[i >> 3] & (0x80 >> (i & 7)) ? PieceState.Downloaded : PieceState.Missing,
+      );
+   }
+}
@@ -1,3 +1,4 @@
+import { formatSize, getSeries } from "./torrents";
 import type { Torrent, TorrentStatus } from "./types";
 
 const seriesRegex = /\bS\d{1,2}E\d{1,2}\b/i;
@@ -7,8 +8,8 @@ const getResolution = (name: string): number | null => {
    const match = name.match(resolutionRegex);
    return match ? parseInt(match[1], 10) : null;
 };
-// This file is no longer used to populate the torrents table,
-// but is kept to provide a reference for the data structure and for testing purposes.
+// This file is no longer used to populate the torrents table directly,
+// but is kept to provide a reference for the data structure and to seed the mock backend in ./mock.ts.
 export const torrents: Torrent[] = [
    {
       hash: "a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4e5f6a1b2",
@@ -244,6 +245,12 @@ export const torrents: Torrent[] = [
    },
 ].map(torrent => ({
    ...torrent,
+   bytes: torrent.size,
+   feed: "Demo",
+   id: torrent.hash,
+   metadata: null,
    resolution: getResolution(torrent.name),
+   series: getSeries(torrent.name),
+   size: formatSize(torrent.size),
    is_series: seriesRegex.test(torrent.name),
 }));
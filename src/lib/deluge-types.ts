@@ -0,0 +1,109 @@
+// Types for the Deluge Web UI JSON-RPC, as per https://deluge.readthedocs.io/en/latest/reference/webapi.html and the core RPC.
+
+export type DelugeState = "Allocating" | "Checking" | "Downloading" | "Error" | "Moving" | "Paused" | "Queued" | "Seeding";
+
+export enum DelugeFilePriority {
+   Skip = 0,
+   Low = 1,
+   Normal = 4,
+   High = 7,
+}
+
+export type DelugeTorrent = {
+   active_time: number; // seconds
+   all_time_download: number; // bytes
+   comment: string;
+   completed_time: number; // timestamp, or 0 if not completed
+   creator: string;
+   download_payload_rate: number; // bytes/s
+   eta: number; // seconds, or 0 if unknown
+   file_progress: number[]; // 0-1, by file index
+   files: DelugeFile[];
+   hash: string;
+   label: string; // only with the Label plugin enabled
+   max_connections: number; // -1 when unlimited
+   max_download_speed: number; // KiB/s, -1 when unlimited
+   max_upload_speed: number; // KiB/s, -1 when unlimited
+   name: string;
+   next_announce: number; // seconds
+   num_peers: number;
+   num_pieces: number;
+   num_seeds: number;
+   peers: DelugePeer[];
+   piece_length: number;
+   pieces: DelugePieceState[] | null; // null when seeding, or without the metadata
+   private: boolean;
+   progress: number; // 0-100
+   queue: number; // -1 when not queued
+   ratio: number; // -1 when nothing was downloaded
+   save_path: string;
+   seeding_time: number; // seconds
+   state: DelugeState;
+   time_added: number; // timestamp
+   total_done: number; // bytes
+   total_payload_download: number; // bytes, this session
+   total_payload_upload: number; // bytes, this session
+   total_peers: number; // in the swarm, -1 if unknown
+   total_seeds: number; // in the swarm, -1 if unknown
+   total_size: number;
+   total_uploaded: number; // bytes
+   total_wanted: number; // bytes of the selected files
+   tracker: string; // the URL of the tracker last announced to
+   tracker_status: string; // eg "Announce OK" or "Error: ..."
+   trackers: DelugeTracker[];
+   upload_payload_rate: number; // bytes/s
+};
+
+export enum DelugePieceState {
+   Missing = 0,
+   Available = 1, // missing, but some peer has it
+   Downloading = 2,
+   Completed = 3,
+}
+
+export type DelugePeer = {
+   client: string;
+   country: string; // the two letter code
+   down_speed: number; // bytes/s
+   ip: string; // with the port, eg 10.0.0.1:6881
+   progress: number; // 0-1
+   seed: number; // non-zero for seeds
+   up_speed: number; // bytes/s
+};
+
+export type DelugeTracker = {
+   tier: number;
+   url: string;
+};
+
+export type DelugeFile = {
+   index: number;
+   offset: number;
+   path: string; // including the torrent's folder, if it has one
+   size: number;
+};
+
+export type DelugeTorrentKey = keyof DelugeTorrent;
+
+export type DelugeAddTorrentOptions = {
+   add_paused?: boolean;
+   download_location?: string;
+   file_priorities?: DelugeFilePriority[];
+   prioritize_first_last_pieces?: boolean;
+   sequential_download?: boolean;
+};
+
+export type DelugeUpdateUi = {
+   connected: boolean;
+   filters: Record<string, Array<[string, number]>>;
+   stats: Record<string, number | boolean>;
+   torrents: Record<string, Partial<DelugeTorrent>>;
+};
+
+export type DelugeHost = [id: string, host: string, port: number, username: string];
+
+export type DelugeRpcResponse<T> = {
+   error: { code: number; message: string } | null;
+   id: number;
+   result: T;
+};
@@ -0,0 +1,192 @@
+import type {
+   DelugeAddTorrentOptions,
+   DelugeHost,
+   DelugeRpcResponse,
+   DelugeTorrent,
+   DelugeTorrentKey,
+   DelugeTracker,
+   DelugeUpdateUi,
+} from "@/lib/deluge-types";
+
+type Session = {
+   password: string | null;
+   sessionId: string | null;
+};
+
+const ERROR_NOT_AUTHENTICATED = 1; // as per deluge.ui.web.json_api
+
+// NOTE: Stash the sessions on globalThis so that they survive hot reloads and are shared by every route bundle.
+const globalForSessions = globalThis as unknown as { delugeSessions?: Map<string, Session> };
+const sessions = (globalForSessions.delugeSessions ??= new Map<string, Session>());
+
+const regexSessionId = /(?:^|;\s*)_session_id=([^;]+)/;
+
+const getSession = (backendUrl: string): Session => {
+   let session = sessions.get(backendUrl);
+   if (!session) {
+      session = { password: null, sessionId: null };
+      sessions.set(backendUrl, session);
+   }
+   return session;
+};
+
+/**
+ * The single error type thrown by DelugeClient, which mirrors QBittorrentError so that routes can report failures consistently.
+ */
+export class DelugeError extends Error {
+   /**
+    * @param message - human readable description of the failure
+    * @param endpoint - the RPC method that failed, eg core.add_torrent_url
+    * @param status - HTTP status returned by the backend, or 0 if the backend couldn't be reached
+    */
+   constructor(
+      message: string,
+      readonly endpoint: string,
+      readonly status: number,
+      options?: ErrorOptions,
+   ) {
+      super(message, options);
+      this.name = "DelugeError";
+   }
+
+   toJSON() {
+      return { error: this.message, endpoint: this.endpoint, status: this.status };
+   }
+}
+
+/**
+ * Typed client for the Deluge Web UI JSON-RPC that keeps the session cookie and connects the Web UI to a daemon, so it is
+ * server-side only.
+ */
+export class DelugeClient {
+   private id = 0;
+
+   /**
+    * @param backendUrl - base URL of the Deluge Web UI, eg http://localhost:8112
+    */
+   constructor(readonly backendUrl: string) {}
+
+   private async post<T>(method: string, params: unknown[]): Promise<{ response: Response; body: DelugeRpcResponse<T> }> {
+      const session = getSession(this.backendUrl);
+      const headers = new Headers({ "Content-Type": "application/json" });
+      if (session.sessionId) headers.set("Cookie", `_session_id=${session.sessionId}`);
+
+      let response: Response;
+      try {
+         response = await fetch(`${this.backendUrl}/json`, {
+            body: JSON.stringify({ method, params, id: ++this.id }),
+            headers,
+            method: "POST",
+         });
+      } catch (e: any) {
+         throw new DelugeError(`Failed to reach ${this.backendUrl}: ${e.message}`, method, 0, { cause: e });
+      }
+
+      if (!response.ok) throw new DelugeError(`${method} failed with HTTP ${response.status}`, method, response.status);
+
+      for (const cookie of response.headers.getSetCookie()) {
+         const matched = cookie.match(regexSessionId);
+         if (matched) session.sessionId = matched[1];
+      }
+
+      try {
+         return { response, body: await response.json() };
+      } catch (e: any) {
+         throw new DelugeError(`${method} returned malformed JSON`, method, response.status, { cause: e });
+      }
+   }
+
+   private async authenticate(password: string): Promise<void> {
+      const { response, body } = await this.post<boolean>("auth.login", [password]);
+      if (body.error || !body.result)
+         throw new DelugeError(`Invalid password for ${this.backendUrl}`, "auth.login", response.status);
+   }
+
+   private async call<T>(method: string, params: unknown[] = []): Promise<T> {
+      const session = getSession(this.backendUrl);
+      let { response, body } = await this.post<T>(method, params);
+      if (body.error?.code === ERROR_NOT_AUTHENTICATED && session.password !== null) {
+         // The session expired, or the Web UI restarted, so log in again and retry once.
+         await this.authenticate(session.password);
+         ({ response, body } = await this.post<T>(method, params));
+      }
+      if (body.error) throw new DelugeError(`${method} failed: ${body.error.message}`, method, response.status);
+      return body.result;
+   }
+
+   readonly auth = {
+      /**
+       * Logs into the Web UI and remembers the password so that expired sessions can be renewed transparently.
+       * NOTE: The Deluge Web UI only has a password, there's no username.
+       */
+      login: async (password: string): Promise<void> => {
+         await this.authenticate(password);
+         getSession(this.backendUrl).password = password;
+      },
+      configure: (password: string): void => {
+         getSession(this.backendUrl).password = password;
+      },
+      logout: async (): Promise<void> => {
+         try {
+            await this.call<boolean>("auth.delete_session");
+         } finally {
+            sessions.delete(this.backendUrl);
+         }
+      },
+   };
+
+   readonly web = {
+      connected: () => this.call<boolean>("web.connected"),
+      getHosts: () => this.call<DelugeHost[]>("web.get_hosts"),
+      connect: (hostId: string) => this.call<string[]>("web.connect", [hostId]),
+      /**
+       * Connects the Web UI to its first daemon unless it's already connected to one, which the core methods need.
+       */
+      ensureConnected: async (): Promise<void> => {
+         if (await this.web.connected()) return;
+         const hosts = await this.web.getHosts();
+         if (!hosts.length) throw new DelugeError(`${this.backendUrl} has no daemons`, "web.get_hosts", 200);
+         await this.web.connect(hosts[0][0]);
+      },
+      updateUi: (keys: DelugeTorrentKey[], filter: Record<string, string> = {}) =>
+         this.call<DelugeUpdateUi>("web.update_ui", [keys, filter]),
+   };
+
+   readonly core = {
+      addTorrentUrl: (url: string, options: DelugeAddTorrentOptions = {}) =>
+         this.call<string | null>("core.add_torrent_url", [url, options]),
+      addTorrentMagnet: (uri: string, options: DelugeAddTorrentOptions = {}) =>
+         this.call<string | null>("core.add_torrent_magnet", [uri, options]),
+      addTorrentFile: (filename: string, filedump: Buffer, options: DelugeAddTorrentOptions = {}) =>
+         this.call<string | null>("core.add_torrent_file", [filename, filedump.toString("base64"), options]),
+      pauseTorrents: (ids: string[]) => this.call<void>("core.pause_torrents", [ids]),
+      resumeTorrents: (ids: string[]) => this.call<void>("core.resume_torrents", [ids]),
+      forceRecheck: (ids: string[]) => this.call<void>("core.force_recheck", [ids]),
+      forceReannounce: (ids: string[]) => this.call<void>("core.force_reannounce", [ids]),
+      removeTorrents: (ids: string[], removeData = false) => this.call<unknown[]>("core.remove_torrents", [ids, removeData]),
+      setTorrentOptions: (ids: string[], options: Record<string, unknown>) =>
+         this.call<void>("core.set_torrent_options", [ids, options]),
+      queueTop: (ids: string[]) => this.call<void>("core.queue_top", [ids]),
+      queueUp: (ids: string[]) => this.call<void>("core.queue_up", [ids]),
+      queueDown: (ids: string[]) => this.call<void>("core.queue_down", [ids]),
+      queueBottom: (ids: string[]) => this.call<void>("core.queue_bottom", [ids]),
+      getEnabledPlugins: () => this.call<string[]>("core.get_enabled_plugins"),
+      getTorrentStatus: (id: string, keys: DelugeTorrentKey[]) =>
+         this.call<Partial<DelugeTorrent>>("core.get_torrent_status", [id, keys]),
+      getTorrentsStatus: (filter: { id?: string[] }, keys: DelugeTorrentKey[]) =>
+         this.call<Record<string, Partial<DelugeTorrent>>>("core.get_torrents_status", [filter, keys]),
+      // NOTE: Deluge replaces all of the torrent's trackers.
+      setTorrentTrackers: (id: string, trackers: DelugeTracker[]) => this.call<void>("core.set_torrent_trackers", [id, trackers]),
+      renameFiles: (id: string, files: Array<[number, string]>) => this.call<void>("core.rename_files", [id, files]),
+      // NOTE: Deluge expects the folders to end with a slash.
+      renameFolder: (id: string, folder: string, newFolder: string) =>
+         this.call<void>("core.rename_folder", [id, folder, newFolder]),
+   };
+
+   // NOTE: Only with the Label plugin enabled.
+   readonly label = {
+      getLabels: () => this.call<string[]>("label.get_labels"),
+      add: (label: string) => this.call<void>("label.add", [label]),
+      setTorrent: (id: string, label: string) => this.call<void>("label.set_torrent", [id, label]),
+   };
+}
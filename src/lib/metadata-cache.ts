@@ -0,0 +1,199 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import type { TorrentMetadata } from "@/lib/types";
+
+/**
+ * A torrent's metadata along with its .torrent file, which is what goes to disk since the metadata can be parsed from it.
+ */
+export type CachedTorrent = {
+   metadata: TorrentMetadata;
+   torrentFile: Buffer;
+};
+
+type MetadataCache = {
+   dir: string | null; // where the .torrent files go, or null to keep to memory
+   entries: Map<string, CachedTorrent>; // by the torrent's key, least recently used first
+   keys: Map<string, string>; // the torrent's key by source URL and by its other info hashes, persisted as index.json
+   loading: Promise<void> | null;
+   saving: Promise<void>;
+};
+
+const MAX_ENTRIES = 100; // HARD-CODED: the metadata of torrents with many files runs to megabytes
+
+// NOTE: Stash the cache on globalThis so that it survives hot reloads and is shared by every route bundle.
+const globalForCache = globalThis as unknown as { torrentViewMetadataCache?: MetadataCache };
+
+/**
+ * Keeps the .torrent files in $TORRENTVIEW_CACHE_DIR, which defaults to .torrentview-cache in the working directory, or only
+ * in memory if it's set to an empty string.
+ */
+const getCache = (): MetadataCache =>
+   (globalForCache.torrentViewMetadataCache ??= {
+      dir: process.env.TORRENTVIEW_CACHE_DIR === "" ? null : resolve(process.env.TORRENTVIEW_CACHE_DIR ?? ".torrentview-cache"),
+      entries: new Map(),
+      keys: new Map(),
+      loading: null,
+      saving: Promise.resolve(),
+   });
+
+/**
+ * @param metadata
+ * @returns the key that a torrent is cached by, ie its v1 info hash or else its v2 one
+ */
+const getKey = (metadata: TorrentMetadata): string => (metadata.v1Hash ?? metadata.v2Hash ?? metadata.hash ?? "").toLowerCase();
+
+/**
+ * @param source - the .torrent URL or magnet link, or an info hash
+ * @returns the info hash that the source names, if any, in lowercase
+ */
+const getInfoHash = (source: string): string | null => {
+   if (/^[0-9a-f]{40}$|^[0-9a-f]{64}$/i.test(source)) return source.toLowerCase();
+   if (!source.startsWith("magnet:")) return null;
+   // NOTE: Only the hex forms, not the base32 form of the v1 hash that some magnet links use, which then go by their URL.
+   for (const xt of new URLSearchParams(source.slice(source.indexOf("?") + 1)).getAll("xt")) {
+      const matched = xt.match(/^urn:btih:([0-9a-f]{40})$|^urn:btmh:1220([0-9a-f]{64})$/i);
+      if (matched) return (matched[1] ?? matched[2]).toLowerCase();
+   }
+   return null;
+};
+
+/**
+ * @param cache
+ * @param source - the .torrent URL or magnet link, or one of the torrent's info hashes
+ * @returns the key that the torrent would be cached by, if known
+ */
+const findKey = (cache: MetadataCache, source: string): string | null => {
+   const hash = getInfoHash(source);
+   return cache.keys.get(source) ?? (hash && (cache.keys.get(hash) ?? hash));
+};
+
+const getPath = (dir: string, key: string) => join(dir, `${key}.torrent`);
+
+/**
+ * Reads index.json, once, so that the .torrent files on disk can be found by their source URLs after a restart.
+ */
+const load = (cache: MetadataCache): Promise<void> =>
+   (cache.loading ??= (async () => {
+      if (!cache.dir) return;
+      try {
+         const index: Record<string, string> = JSON.parse(await readFile(join(cache.dir, "index.json"), "utf-8"));
+         for (const [source, key] of Object.entries(index)) {
+            if (!cache.keys.has(source)) cache.keys.set(source, key);
+         }
+      } catch (e: any) {
+         if (e.code !== "ENOENT") console.error(`Failed to read the metadata cache's index in ${cache.dir}:`, e);
+      }
+   })());
+
+/**
+ * Writes index.json, one write after the other, logging rather than throwing since the cache is only an optimization.
+ */
+const save = (cache: MetadataCache): Promise<void> =>
+   (cache.saving = cache.saving.then(async () => {
+      if (!cache.dir) return;
+      try {
+         await mkdir(cache.dir, { recursive: true });
+         await writeFile(join(cache.dir, "index.json"), JSON.stringify(Object.fromEntries(cache.keys)));
+      } catch (e) {
+         console.error(`Failed to write the metadata cache's index in ${cache.dir}:`, e);
+      }
+   }));
+
+const remember = (cache: MetadataCache, key: string, torrent: CachedTorrent) => {
+   cache.entries.delete(key); // NOTE: Re-insert so that the Map's order stays that of the most recent use.
+   cache.entries.set(key, torrent);
+   while (cache.entries.size > MAX_ENTRIES) {
+      cache.entries.delete(cache.entries.keys().next().value!); // NOTE: Still on disk, if anywhere.
+   }
+};
+
+/**
+ * Looks for a torrent in memory, else on disk, where it then needs parsing.
+ * @param source - the .torrent URL or magnet link, or one of the torrent's info hashes
+ * @param parse - gets the metadata of a .torrent file found on disk
+ * @returns the torrent and where it was found, or null if it isn't cached
+ */
+export async function getCachedTorrent(
+   source: string,
+   parse: (torrentFile: Buffer) => Promise<TorrentMetadata>,
+): Promise<(CachedTorrent & { from: "disk" | "memory" }) | null> {
+   const cache = getCache();
+   await load(cache);
+   const key = findKey(cache, source);
+   if (!key) return null;
+
+   const entry = cache.entries.get(key);
+   if (entry) {
+      remember(cache, key, entry);
+      return { ...entry, from: "memory" };
+   }
+
+   if (!cache.dir) return null;
+   let torrentFile: Buffer;
+   try {
+      torrentFile = await readFile(getPath(cache.dir, key));
+   } catch (e: any) {
+      if (e.code !== "ENOENT") console.error(`Failed to read ${key} from the metadata cache:`, e);
+      return null;
+   }
+   const torrent = { metadata: await parse(torrentFile), torrentFile };
+   remember(cache, key, torrent);
+   return { ...torrent, from: "disk" };
+}
+
+/**
+ * Caches a torrent by its info hashes and, if any, the URL that it came from.
+ * @param source - the .torrent URL or magnet link, or null for an uploaded .torrent file
+ * @param torrent
+ */
+export async function cacheTorrent(source: string | null, torrent: CachedTorrent): Promise<void> {
+   const cache = getCache();
+   await load(cache);
+   const key = getKey(torrent.metadata);
+   if (!key) return;
+
+   remember(cache, key, torrent);
+   const { v1Hash, v2Hash } = torrent.metadata;
+   for (const alias of [source, v1Hash?.toLowerCase(), v2Hash?.toLowerCase()]) {
+      if (alias && alias !== key) cache.keys.set(alias, key);
+   }
+
+   if (!cache.dir) return;
+   try {
+      await mkdir(cache.dir, { recursive: true });
+      await writeFile(getPath(cache.dir, key), torrent.torrentFile);
+   } catch (e) {
+      console.error(`Failed to write ${key} to the metadata cache:`, e);
+   }
+   await save(cache);
+}
+
+/**
+ * Forgets a torrent, in memory and on disk, eg when its .torrent file changed at the same URL.
+ * @param source - the .torrent URL or magnet link, or one of the torrent's info hashes
+ * @returns whether the torrent was cached
+ */
+export async function invalidateCachedTorrent(source: string): Promise<boolean> {
+   const cache = getCache();
+   await load(cache);
+   const key = findKey(cache, source);
+   if (!key) return false;
+
+   let isCached = cache.entries.delete(key);
+   for (const [alias, aliased] of cache.keys) {
+      if (aliased !== key) continue;
+      cache.keys.delete(alias);
+      isCached = true;
+   }
+
+   if (cache.dir) {
+      try {
+         await rm(getPath(cache.dir, key));
+         isCached = true;
+      } catch (e: any) {
+         if (e.code !== "ENOENT") console.error(`Failed to remove ${key} from the metadata cache:`, e);
+      }
+      await save(cache);
+   }
+   return isCached;
+}
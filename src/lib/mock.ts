@@ -0,0 +1,765 @@
+import bencode from "bencode";
+import { createHash } from "crypto";
+import { torrents as fixtures } from "@/lib/data";
+import { FilePriority, PieceState, TrackerStatus } from "@/lib/qbittorrent-types";
+import type {
+   Category,
+   MainData,
+   RssArticle,
+   TorrentContent,
+   TorrentInfo,
+   TorrentPeer,
+   TorrentProperties,
+   TorrentState,
+   TorrentTracker,
+} from "@/lib/qbittorrent-types";
+import { getPieceRange } from "@/lib/torrents";
+import type { TorrentStatus } from "@/lib/types";
+
+// A stand-in for the qbittorrent Web API, seeded from ./data.ts, that the demo backend in ./registry.ts points at.
+
+type MockFile = {
+   name: string; // path within the torrent, "/" delimited
+   size: number;
+   priority: FilePriority;
+   downloaded: number;
+};
+
+type MockTransfer = {
+   addedOn: number;
+   category: string;
+   dlspeed: number; // nominal rate while downloading
+   files: MockFile[];
+   firstLastPiecePrio: boolean;
+   hash: string;
+   name: string;
+   pieceLength: number;
+   savePath: string;
+   sequential: boolean;
+   state: TorrentState;
+   tags: string[];
+   trackers: string[]; // added with torrents/addTrackers, after the HARD-CODED ones
+   uploaded: number;
+   upspeed: number; // nominal rate while seeding
+};
+
+type MockState = {
+   articles: RssArticle[];
+   categories: Map<string, Category>;
+   readArticles: Set<string>;
+   rid: number;
+   tags: Set<string>;
+   tickedAt: number;
+   transfers: Map<string, MockTransfer>;
+};
+
+type Params = URLSearchParams | FormData;
+
+const FEED = "Demo";
+const DEFAULT_SAVE_PATH = "/downloads";
+const DEFAULT_DLSPEED = 4 * 1048576; // HARD-CODED: 4 MiB/s
+const DEFAULT_UPSPEED = 256 * 1024; // HARD-CODED: 256 KiB/s
+const MAX_PIECES = 2000; // HARD-CODED: keeps the generated .torrent files small
+const TRACKERS = ["udp://tracker.example.org:1337/announce", "https://tracker.example.net/announce"]; // HARD-CODED
+const PEER_CLIENTS = ["qBittorrent/5.0.0", "Transmission 4.0.6", "Deluge 2.1.1", "libtorrent/2.0.10"]; // HARD-CODED
+
+const decoder = new TextDecoder("utf-8");
+const toUtf8 = (value: Uint8Array | string): string => (typeof value === "string" ? value : decoder.decode(value));
+
+const stateFor = (status: TorrentStatus): TorrentState => {
+   switch (status) {
+      case "downloading":
+         return "downloading";
+      case "seeding":
+         return "uploading";
+      case "completed":
+         return "stoppedUP";
+      case "error":
+         return "error";
+      default:
+         return "stoppedDL";
+   }
+};
+
+const isDownloading = (state: TorrentState) => state === "downloading" || state === "forcedDL" || state === "metaDL";
+const isUploading = (state: TorrentState) => state === "uploading" || state === "forcedUP";
+
+const getPieceLength = (size: number): number => {
+   let pieceLength = 16384; // the smallest piece size that clients accept
+   while (size / pieceLength > MAX_PIECES) pieceLength *= 2;
+   return pieceLength;
+};
+
+/**
+ * Builds the info dictionary of a fixture so that the same fixture always yields the same info hash.
+ */
+const buildInfo = (fixture: (typeof fixtures)[number]): Record<string, any> => {
+   const size = fixture.bytes ?? 0;
+   const pieceLength = getPieceLength(size);
+   const count = Math.ceil(size / pieceLength);
+   const pieces = Buffer.alloc(count * 20);
+   for (let i = 0; i < count; ++i) {
+      createHash("sha1").update(`${fixture.hash}:${i}`).digest().copy(pieces, i * 20);
+   }
+
+   const info: Record<string, any> = { "name": fixture.name, "piece length": pieceLength, "pieces": pieces };
+   if (fixture.files?.length) {
+      info.files = fixture.files.map(file => ({ length: file.size, path: file.name.split("/") }));
+   } else {
+      info.length = size;
+   }
+   return info;
+};
+
+const createState = (): MockState => {
+   const now = Date.now();
+   const transfers = new Map<string, MockTransfer>();
+   for (const fixture of fixtures) {
+      const files = fixture.files?.length
+         ? fixture.files.map(file => ({ name: file.name, size: file.size }))
+         : [{ name: fixture.name, size: fixture.bytes ?? 0 }];
+      transfers.set(fixture.hash, {
+         addedOn: fixture.added_on,
+         category: fixture.category,
+         dlspeed: fixture.dlspeed || DEFAULT_DLSPEED,
+         files: files.map(file => ({ ...file, priority: FilePriority.Normal, downloaded: Math.floor(file.size * fixture.progress) })),
+         firstLastPiecePrio: false,
+         hash: fixture.hash,
+         name: fixture.name,
+         pieceLength: getPieceLength(fixture.bytes ?? 0),
+         savePath: DEFAULT_SAVE_PATH,
+         sequential: false,
+         state: stateFor(fixture.status),
+         tags: [],
+         trackers: [],
+         uploaded: Math.floor((fixture.bytes ?? 0) * fixture.ratio),
+         upspeed: fixture.upspeed || DEFAULT_UPSPEED,
+      });
+   }
+
+   const articles: RssArticle[] = fixtures.map(fixture => ({
+      category: fixture.category,
+      contentLength: String(fixture.bytes),
+      date: new Date(fixture.added_on * 1000).toUTCString(),
+      fileName: `${fixture.name}.torrent`,
+      id: fixture.hash,
+      infoHash: "",
+      isRead: fixture.is_read,
+      link: "",
+      magnetURI: "",
+      peers: "0",
+      seeds: "0",
+      title: fixture.name,
+      torrentURL: "", // NOTE: Filled in per request since it depends on the origin the mock is served from.
+      verified: "",
+   }));
+
+   // NOTE: Give the fixtures' categories a save path of their own, so that picking one visibly changes the save path.
+   const categories = new Map<string, Category>();
+   for (const { category } of fixtures) {
+      if (category) categories.set(category, { name: category, savePath: `${DEFAULT_SAVE_PATH}/${category.toLowerCase()}` });
+   }
+
+   return { articles, categories, readArticles: new Set(), rid: 0, tags: new Set(), tickedAt: now, transfers };
+};
+
+// NOTE: Stash the state on globalThis so that it survives hot reloads and is shared by every route bundle.
+const globalForMock = globalThis as unknown as { torrentViewMock?: MockState };
+const getState = (): MockState => (globalForMock.torrentViewMock ??= createState());
+
+const getWanted = (transfer: MockTransfer) => transfer.files.filter(file => file.priority !== FilePriority.DoNotDownload);
+
+const getProgress = (transfer: MockTransfer): number => {
+   const wanted = getWanted(transfer);
+   const size = wanted.reduce((sum, file) => sum + file.size, 0);
+   return size ? wanted.reduce((sum, file) => sum + file.downloaded, 0) / size : 1;
+};
+
+/**
+ * Advances every transfer by the time elapsed since the previous request.
+ */
+const tick = (state: MockState) => {
+   const now = Date.now();
+   const elapsed = (now - state.tickedAt) / 1000;
+   state.tickedAt = now;
+
+   for (const transfer of state.transfers.values()) {
+      if (isDownloading(transfer.state)) {
+         let budget = transfer.dlspeed * elapsed;
+         for (const file of transfer.files) {
+            if (file.priority === FilePriority.DoNotDownload || budget <= 0) continue;
+            const taken = Math.min(budget, file.size - file.downloaded);
+            file.downloaded += taken;
+            budget -= taken;
+         }
+         if (getProgress(transfer) >= 1) transfer.state = "uploading";
+      } else if (isUploading(transfer.state)) {
+         transfer.uploaded += transfer.upspeed * elapsed;
+      }
+   }
+};
+
+const toTorrentInfo = (transfer: MockTransfer, queue: number): TorrentInfo => {
+   const wanted = getWanted(transfer);
+   const size = wanted.reduce((sum, file) => sum + file.size, 0);
+   const totalSize = transfer.files.reduce((sum, file) => sum + file.size, 0);
+   const completed = Math.floor(wanted.reduce((sum, file) => sum + file.downloaded, 0));
+   const downloaded = Math.floor(transfer.files.reduce((sum, file) => sum + file.downloaded, 0));
+   const jitter = 0.8 + Math.random() * 0.4; // NOTE: Make the speeds look alive.
+   const dlspeed = isDownloading(transfer.state) ? Math.floor(transfer.dlspeed * jitter) : 0;
+   const upspeed = isUploading(transfer.state) || isDownloading(transfer.state) ? Math.floor(transfer.upspeed * jitter) : 0;
+   const contentPath = `${transfer.savePath}/${transfer.name}`;
+   return {
+      added_on: transfer.addedOn,
+      amount_left: size - completed,
+      auto_tmm: false,
+      availability: isDownloading(transfer.state) ? 1 : -1,
+      category: transfer.category,
+      completed,
+      completion_on: completed >= size ? transfer.addedOn : -1,
+      content_path: contentPath,
+      dl_limit: -1,
+      dlspeed,
+      downloaded,
+      downloaded_session: downloaded,
+      eta: dlspeed ? Math.ceil((size - completed) / dlspeed) : 8640000,
+      f_l_piece_prio: transfer.firstLastPiecePrio,
+      force_start: transfer.state === "forcedDL" || transfer.state === "forcedUP",
+      hash: transfer.hash,
+      infohash_v1: transfer.hash,
+      infohash_v2: "",
+      last_activity: Math.floor(Date.now() / 1000),
+      magnet_uri: `magnet:?xt=urn:btih:${transfer.hash}&dn=${encodeURIComponent(transfer.name)}`,
+      max_ratio: -1,
+      max_seeding_time: -1,
+      name: transfer.name,
+      num_complete: 12,
+      num_incomplete: 3,
+      num_leechs: upspeed ? 2 : 0,
+      num_seeds: dlspeed ? 8 : 0,
+      priority: queue,
+      progress: getProgress(transfer),
+      ratio: downloaded ? transfer.uploaded / downloaded : 0,
+      ratio_limit: -2,
+      save_path: transfer.savePath,
+      seeding_time: 0,
+      seeding_time_limit: -2,
+      seen_complete: transfer.addedOn,
+      seq_dl: transfer.sequential,
+      size,
+      state: transfer.state,
+      super_seeding: false,
+      tags: transfer.tags.join(", "),
+      time_active: Math.floor(Date.now() / 1000) - transfer.addedOn,
+      total_size: totalSize,
+      tracker: "",
+      up_limit: -1,
+      uploaded: Math.floor(transfer.uploaded),
+      uploaded_session: Math.floor(transfer.uploaded),
+      upspeed,
+   };
+};
+
+const getTorrentInfos = (state: MockState): TorrentInfo[] => {
+   let queue = 0;
+   return Array.from(state.transfers.values(), transfer =>
+      toTorrentInfo(transfer, getProgress(transfer) < 1 ? ++queue : 0),
+   );
+};
+
+const getProperties = (transfer: MockTransfer, info: TorrentInfo): TorrentProperties => ({
+   addition_date: info.added_on,
+   comment: "Generated by the TorrentView mock backend",
+   completion_date: info.completion_on,
+   created_by: "TorrentView",
+   creation_date: info.added_on,
+   dl_limit: info.dl_limit,
+   dl_speed: info.dlspeed,
+   dl_speed_avg: info.time_active ? Math.floor(info.downloaded / info.time_active) : 0,
+   eta: info.eta,
+   hash: info.hash,
+   infohash_v1: info.infohash_v1,
+   infohash_v2: info.infohash_v2,
+   is_private: false,
+   last_seen: info.seen_complete,
+   name: info.name,
+   nb_connections: info.num_seeds + info.num_leechs,
+   nb_connections_limit: 100,
+   peers: info.num_leechs,
+   peers_total: info.num_incomplete,
+   piece_size: transfer.pieceLength,
+   pieces_have: Math.floor(info.completed / transfer.pieceLength),
+   pieces_num: Math.ceil(info.total_size / transfer.pieceLength),
+   reannounce: 1800 - (info.time_active % 1800),
+   save_path: info.save_path,
+   seeding_time: info.seeding_time,
+   seeds: info.num_seeds,
+   seeds_total: info.num_complete,
+   share_ratio: info.ratio,
+   time_elapsed: info.time_active,
+   total_downloaded: info.downloaded,
+   total_downloaded_session: info.downloaded_session,
+   total_size: info.total_size,
+   total_uploaded: info.uploaded,
+   total_uploaded_session: info.uploaded_session,
+   total_wasted: 0,
+   up_limit: info.up_limit,
+   up_speed: info.upspeed,
+   up_speed_avg: info.time_active ? Math.floor(info.uploaded / info.time_active) : 0,
+});
+
+const getTrackers = (transfer: MockTransfer, info: TorrentInfo): TorrentTracker[] => [
+   ...["** [DHT] **", "** [PeX] **", "** [LSD] **"].map(url => ({
+      url,
+      status: TrackerStatus.Working,
+      tier: -1,
+      num_peers: 0,
+      num_seeds: -1,
+      num_leeches: -1,
+      num_downloaded: -1,
+      msg: "",
+   })),
+   {
+      url: TRACKERS[0],
+      status: TrackerStatus.Working,
+      tier: 0,
+      num_peers: info.num_seeds + info.num_leechs,
+      num_seeds: info.num_complete,
+      num_leeches: info.num_incomplete,
+      num_downloaded: 42,
+      msg: "",
+   },
+   {
+      url: TRACKERS[1],
+      status: TrackerStatus.NotWorking,
+      tier: 1,
+      num_peers: 0,
+      num_seeds: -1,
+      num_leeches: -1,
+      num_downloaded: -1,
+      msg: "Connection timed out",
+   },
+   ...transfer.trackers.map((url, i) => ({
+      url,
+      status: TrackerStatus.NotContacted,
+      tier: 2 + i,
+      num_peers: 0,
+      num_seeds: -1,
+      num_leeches: -1,
+      num_downloaded: -1,
+      msg: "",
+   })),
+];
+
+/**
+ * Works out the pieces' states from how much of each file is downloaded, since the mock downloads each file from its start.
+ */
+const getPieceStates = (transfer: MockTransfer): PieceState[] => {
+   const size = transfer.files.reduce((sum, file) => sum + file.size, 0);
+   const states = Array.from({ length: Math.ceil(size / transfer.pieceLength) }, () => PieceState.Missing);
+   const done = new Array<number>(states.length).fill(0); // bytes
+   let offset = 0;
+   for (const file of transfer.files) {
+      for (let start = offset, end = offset + Math.floor(file.downloaded); start < end; ) {
+         const piece = Math.floor(start / transfer.pieceLength);
+         const next = Math.min(end, (piece + 1) * transfer.pieceLength);
+         done[piece] += next - start;
+         start = next;
+      }
+      offset += file.size;
+   }
+   return states.map((_, i) => {
+      const length = Math.min(transfer.pieceLength, size - i * transfer.pieceLength);
+      if (done[i] >= length) return PieceState.Downloaded;
+      return done[i] > 0 && isDownloading(transfer.state) ? PieceState.Downloading : PieceState.Missing;
+   });
+};
+
+// NOTE: The peers are derived from the hash, so that they stay put from one poll to the next while their speeds wobble.
+const getPeers = (info: TorrentInfo): Record<string, TorrentPeer> => {
+   const seeds = info.num_seeds;
+   const peers: Record<string, TorrentPeer> = {};
+   for (let i = 0, n = seeds + info.num_leechs; i < n; ++i) {
+      const digest = createHash("sha1").update(`${info.hash}:peer:${i}`).digest();
+      const ip = `10.${digest[0]}.${digest[1]}.${digest[2] || 1}`;
+      const port = 6881 + (digest.readUInt16BE(3) % 1000);
+      const isSeed = i < seeds;
+      peers[`${ip}:${port}`] = {
+         client: PEER_CLIENTS[digest[5] % PEER_CLIENTS.length],
+         connection: digest[6] % 2 ? "μTP" : "BT",
+         country: "",
+         country_code: "",
+         dl_speed: isSeed && seeds ? Math.floor(info.dlspeed / seeds) : 0,
+         downloaded: isSeed ? Math.floor(info.downloaded / Math.max(seeds, 1)) : 0,
+         files: "",
+         flags: isSeed ? "D X E" : "U X E",
+         flags_desc: isSeed
+            ? "D = Currently downloading (interested and not choked)\nX = Peer from PEX\nE = Encrypted traffic"
+            : "U = Currently uploading (interested and not choked)\nX = Peer from PEX\nE = Encrypted traffic",
+         ip,
+         port,
+         progress: isSeed ? 1 : (digest[7] % 100) / 100,
+         relevance: isSeed ? 1 : 0,
+         up_speed: !isSeed && info.num_leechs ? Math.floor(info.upspeed / info.num_leechs) : 0,
+         uploaded: isSeed ? 0 : Math.floor(info.uploaded / Math.max(info.num_leechs, 1)),
+      };
+   }
+   return peers;
+};
+
+const getHashes = (state: MockState, params: Params): MockTransfer[] => {
+   const hashes = String(params.get("hashes") ?? params.get("hash") ?? "");
+   if (hashes === "all") return Array.from(state.transfers.values());
+   return hashes
+      .split("|")
+      .map(hash => state.transfers.get(hash))
+      .filter((transfer): transfer is MockTransfer => !!transfer);
+};
+
+/**
+ * Moves the transfers within the queue, ie the order of state.transfers, as per torrents/topPrio, torrents/increasePrio, etc.
+ * @param state
+ * @param moved
+ * @param offset - -1 or 1 to move up or down a place, or -Infinity or Infinity to move to the top or bottom
+ */
+const moveInQueue = (state: MockState, moved: MockTransfer[], offset: number) => {
+   // NOTE: Only the incomplete transfers are queued, as per getTorrentInfos, so leave the rest out of the reordering.
+   const all = Array.from(state.transfers.values());
+   const order = all.filter(transfer => getProgress(transfer) < 1);
+   const isMoved = new Set(moved.filter(transfer => getProgress(transfer) < 1));
+   if (Math.abs(offset) === Infinity) {
+      const rest = order.filter(transfer => !isMoved.has(transfer));
+      const queued = order.filter(transfer => isMoved.has(transfer));
+      order.splice(0, order.length, ...(offset < 0 ? [...queued, ...rest] : [...rest, ...queued]));
+   } else {
+      // NOTE: Swap each with its neighbour, nearest the destination first so that adjacent ones move together.
+      const indices = order.map((_, i) => i).filter(i => isMoved.has(order[i]));
+      for (const i of offset < 0 ? indices : indices.reverse()) {
+         const j = i + offset;
+         if (j < 0 || j >= order.length || isMoved.has(order[j])) continue;
+         [order[i], order[j]] = [order[j], order[i]];
+      }
+   }
+   const complete = all.filter(transfer => getProgress(transfer) >= 1);
+   state.transfers = new Map([...order, ...complete].map(transfer => [transfer.hash, transfer]));
+};
+
+// NOTE: Like qbittorrent, with the original content layout, multi-file torrents have their files in a folder named after them.
+const getFileName = (transfer: MockTransfer, file: MockFile) =>
+   transfer.files.length > 1 ? `${transfer.name}/${file.name}` : file.name;
+
+/**
+ * Renames the transfer's files, as per torrents/renameFile and torrents/renameFolder.
+ * @param transfer
+ * @param oldPath - of the file, or folder, as per getFileName
+ * @param newPath
+ * @param isFolder
+ * @returns whether it was renamed, ie oldPath exists and newPath doesn't
+ */
+const renamePath = (transfer: MockTransfer, oldPath: string, newPath: string, isFolder: boolean): boolean => {
+   const names = transfer.files.map(file => getFileName(transfer, file));
+   const isUnder = (name: string, path: string) => (isFolder ? name.startsWith(`${path}/`) : name === path);
+   if (!oldPath || !newPath || !names.some(name => isUnder(name, oldPath))) return false;
+   if (names.some(name => name === newPath || name.startsWith(`${newPath}/`))) return false;
+
+   const renamed = names.map(name => (isUnder(name, oldPath) ? newPath + name.slice(oldPath.length) : name));
+   if (transfer.files.length > 1) {
+      // NOTE: Renaming the torrent's own folder renames the torrent, as far as the mock is concerned.
+      const root = renamed[0].split("/")[0];
+      if (renamed.some(name => !name.startsWith(`${root}/`))) return false;
+      transfer.name = root;
+      transfer.files.forEach((file, i) => (file.name = renamed[i].slice(root.length + 1)));
+   } else {
+      transfer.files[0].name = renamed[0];
+   }
+   return true;
+};
+
+const addTorrentFile = (state: MockState, buffer: Buffer, params: Params): boolean => {
+   const decoded = bencode.decode(buffer) as Record<string, any>;
+   const info = decoded.info;
+   if (!info) return false;
+
+   const hash = createHash("sha1").update(bencode.encode(info)).digest("hex");
+   if (state.transfers.has(hash)) return false; // qbittorrent refuses duplicates
+
+   const name = toUtf8(info.name);
+   const files: Array<{ name: string; size: number }> = info.files
+      ? info.files.map((file: any) => ({ name: file.path.map(toUtf8).join("/"), size: file.length }))
+      : [{ name, size: info.length }];
+   addTransfer(state, hash, name, files, info["piece length"], params);
+   return true;
+};
+
+const addMagnet = (state: MockState, uri: string, params: Params): boolean => {
+   const url = new URL(uri);
+   const xt = url.searchParams.getAll("xt").find(value => value.startsWith("urn:btih:"));
+   if (!xt) return false;
+
+   const hash = xt.substring("urn:btih:".length).toLowerCase();
+   if (state.transfers.has(hash)) return false;
+
+   const name = url.searchParams.get("dn") ?? hash;
+   const size = 700 * 1048576; // HARD-CODED: the mock can't resolve magnet links, so pretend
+   addTransfer(state, hash, name, [{ name, size }], getPieceLength(size), params);
+   return true;
+};
+
+const addTransfer = (
+   state: MockState,
+   hash: string,
+   name: string,
+   files: Array<{ name: string; size: number }>,
+   pieceLength: number,
+   params: Params,
+) => {
+   const isTrue = (key: string) => params.get(key) === "true";
+   const tags = String(params.get("tags") ?? "");
+   const category = String(params.get("category") ?? "");
+   // NOTE: qbittorrent creates the category, and tags, that don't exist yet.
+   if (category && !state.categories.has(category)) state.categories.set(category, { name: category, savePath: "" });
+   if (tags) tags.split(",").forEach(tag => state.tags.add(tag));
+   state.transfers.set(hash, {
+      addedOn: Math.floor(Date.now() / 1000),
+      category,
+      dlspeed: DEFAULT_DLSPEED,
+      files: files.map(file => ({ ...file, priority: FilePriority.Normal, downloaded: 0 })),
+      firstLastPiecePrio: isTrue("firstLastPiecePrio"),
+      hash,
+      name: String(params.get("rename") || name),
+      pieceLength,
+      savePath: String(params.get("savepath") || DEFAULT_SAVE_PATH),
+      sequential: isTrue("sequentialDownload"),
+      state: isTrue("stopped") ? "stoppedDL" : "downloading",
+      tags: tags ? tags.split(",") : [],
+      trackers: [],
+      uploaded: 0,
+      upspeed: DEFAULT_UPSPEED,
+   });
+   if (isTrue("addToTopOfQueue")) moveInQueue(state, [state.transfers.get(hash)!], -Infinity);
+};
+
+const text = (body: string, status = 200) => new Response(body, { status, headers: { "Content-Type": "text/plain" } });
+const json = (body: unknown) => Response.json(body);
+
+/**
+ * @param origin - the URL the mock is served from, eg http://localhost:9002/api/mock
+ * @returns the generated .torrent file URL of the fixture
+ */
+const getTorrentUrl = (origin: string, id: string) => `${origin}/torrents/${encodeURIComponent(id)}.torrent`;
+
+/**
+ * Generates the .torrent file of a fixture.
+ * @param id - the fixture's hash, which doubles as its article id
+ * @returns the bencoded .torrent file or null if there is no such fixture
+ */
+export function getMockTorrentFile(id: string): Buffer | null {
+   const fixture = fixtures.find(f => f.hash === id);
+   if (!fixture) return null;
+   return bencode.encode({
+      "comment": "Generated by the TorrentView mock backend",
+      "created by": "TorrentView",
+      "creation date": fixture.added_on,
+      "info": buildInfo(fixture),
+   });
+}
+
+/**
+ * Handles a qbittorrent Web API call.
+ * @param method - the API method, eg torrents/add
+ * @param params - the query string for GETs, the form for POSTs
+ * @param origin - the URL the mock is served from, eg http://localhost:9002/api/mock
+ * @returns the response qbittorrent would give
+ */
+export async function handleMockRequest(method: string, params: Params, origin: string): Promise<Response> {
+   const state = getState();
+   tick(state);
+
+   switch (method) {
+      case "auth/login":
+         return new Response("Ok.", { headers: { "Content-Type": "text/plain", "Set-Cookie": "SID=mock; HttpOnly; path=/" } });
+      case "auth/logout":
+         return text("");
+      case "app/version":
+         return text("v5.0.0-mock");
+      case "app/webapiVersion":
+         return text("2.11.2");
+      case "app/defaultSavePath":
+         return text(DEFAULT_SAVE_PATH);
+
+      case "rss/items": {
+         const withData = params.get("withData") === "true";
+         const articles = state.articles.map(article => ({
+            ...article,
+            isRead: article.isRead || state.readArticles.has(article.id),
+            torrentURL: getTorrentUrl(origin, article.id),
+         }));
+         return json({
+            [FEED]: {
+               uid: "00000000-0000-0000-0000-000000000000",
+               url: `${origin}/feed.xml`,
+               ...(withData && { title: FEED, lastBuildDate: new Date().toUTCString(), isLoading: false, hasError: false, articles }),
+            },
+         });
+      }
+      case "rss/markAsRead": {
+         const articleId = params.get("articleId");
+         if (articleId) state.readArticles.add(decodeURIComponent(String(articleId)));
+         else state.articles.forEach(article => state.readArticles.add(article.id));
+         return text("");
+      }
+
+      case "sync/maindata": {
+         // NOTE: Always send a full update, which the API allows, rather than tracking what each rid has seen.
+         const maindata: MainData = {
+            rid: ++state.rid,
+            full_update: true,
+            torrents: Object.fromEntries(getTorrentInfos(state).map(info => [info.hash, info])),
+            server_state: { connection_status: "connected", dl_info_speed: 0, up_info_speed: 0 },
+         };
+         return json(maindata);
+      }
+
+      case "torrents/info": {
+         let infos = getTorrentInfos(state);
+         const hashes = params.get("hashes");
+         if (hashes) {
+            const wanted = new Set(String(hashes).split("|"));
+            infos = infos.filter(info => wanted.has(info.hash));
+         }
+         const sort = params.get("sort") as keyof TorrentInfo | null;
+         if (sort) infos.sort((a, b) => (a[sort] < b[sort] ? -1 : a[sort] > b[sort] ? 1 : 0));
+         if (params.get("reverse") === "true") infos.reverse();
+         const offset = Number(params.get("offset") ?? 0);
+         const limit = params.get("limit") ? Number(params.get("limit")) : undefined;
+         return json(infos.slice(offset, limit === undefined ? undefined : offset + limit));
+      }
+      case "torrents/files": {
+         const transfer = state.transfers.get(String(params.get("hash")));
+         if (!transfer) return text("Not Found", 404);
+         let offset = 0;
+         const contents: TorrentContent[] = transfer.files.map((file, index) => {
+            const pieceRange = getPieceRange(offset, file.size, transfer.pieceLength);
+            offset += file.size;
+            const content: TorrentContent = {
+               index,
+               name: getFileName(transfer, file),
+               size: file.size,
+               progress: file.size ? file.downloaded / file.size : 1,
+               priority: file.priority,
+               piece_range: pieceRange,
+               availability: 1,
+            };
+            return content;
+         });
+         return json(contents);
+      }
+      case "torrents/pieceStates": {
+         const transfer = state.transfers.get(String(params.get("hash")));
+         if (!transfer) return text("Not Found", 404);
+         return json(getPieceStates(transfer));
+      }
+      case "torrents/properties":
+      case "torrents/trackers":
+      case "torrents/webseeds":
+      case "sync/torrentPeers": {
+         const hash = String(params.get("hash"));
+         const transfer = state.transfers.get(hash);
+         const info = transfer && getTorrentInfos(state).find(info => info.hash === hash);
+         if (!transfer || !info) return text("Not Found", 404);
+         if (method === "torrents/properties") return json(getProperties(transfer, info));
+         if (method === "torrents/trackers") return json(getTrackers(transfer, info));
+         if (method === "torrents/webseeds") return json([]);
+         return json({ rid: ++state.rid, full_update: true, peers: getPeers(info), show_flags: true });
+      }
+      case "torrents/add": {
+         const urls = String(params.get("urls") ?? "").split("\n").filter(Boolean);
+         let added = 0;
+         for (const url of urls) {
+            if (url.startsWith("magnet:")) {
+               if (addMagnet(state, url, params)) ++added;
+               continue;
+            }
+            const matched = url.match(/\/torrents\/([^/]+)\.torrent$/);
+            const buffer = matched && getMockTorrentFile(decodeURIComponent(matched[1]));
+            if (buffer && addTorrentFile(state, buffer, params)) ++added;
+         }
+         if (params instanceof FormData) {
+            for (const upload of params.getAll("torrents")) {
+               if (typeof upload === "string") continue;
+               if (addTorrentFile(state, Buffer.from(await upload.arrayBuffer()), params)) ++added;
+            }
+         }
+         return text(added ? "Ok." : "Fails.");
+      }
+      case "torrents/categories":
+         return json(Object.fromEntries(state.categories));
+      case "torrents/tags":
+         return json(Array.from(state.tags).sort());
+      case "torrents/renameFile":
+      case "torrents/renameFolder": {
+         const transfer = state.transfers.get(String(params.get("hash")));
+         if (!transfer) return text("Not Found", 404);
+         const oldPath = String(params.get("oldPath") ?? "");
+         const newPath = String(params.get("newPath") ?? "");
+         if (!renamePath(transfer, oldPath, newPath, method === "torrents/renameFolder")) return text("Conflict", 409);
+         return text("");
+      }
+      case "torrents/addTrackers": {
+         const transfer = state.transfers.get(String(params.get("hash")));
+         if (!transfer) return text("Not Found", 404);
+         for (const url of String(params.get("urls") ?? "").split("\n")) {
+            if (url && !TRACKERS.includes(url) && !transfer.trackers.includes(url)) transfer.trackers.push(url);
+         }
+         return text("");
+      }
+      case "torrents/filePrio": {
+         const transfer = state.transfers.get(String(params.get("hash")));
+         if (!transfer) return text("Not Found", 404);
+         const priority = Number(params.get("priority")) as FilePriority;
+         const ids = String(params.get("id") ?? "").split("|").map(Number);
+         if (ids.some(id => !(id in transfer.files))) return text("Conflict", 409);
+         ids.forEach(id => (transfer.files[id].priority = priority));
+         return text("");
+      }
+      case "torrents/start":
+         getHashes(state, params).forEach(transfer => {
+            transfer.state = getProgress(transfer) < 1 ? "downloading" : "uploading";
+         });
+         return text("");
+      case "torrents/stop":
+         getHashes(state, params).forEach(transfer => {
+            transfer.state = getProgress(transfer) < 1 ? "stoppedDL" : "stoppedUP";
+         });
+         return text("");
+      case "torrents/setForceStart": {
+         const isForced = params.get("value") === "true";
+         getHashes(state, params).forEach(transfer => {
+            const isComplete = getProgress(transfer) >= 1;
+            transfer.state = isForced ? (isComplete ? "forcedUP" : "forcedDL") : isComplete ? "uploading" : "downloading";
+         });
+         return text("");
+      }
+      case "torrents/recheck":
+      case "torrents/reannounce":
+         return text(""); // NOTE: There's nothing to check nor announce to.
+      case "torrents/topPrio":
+         moveInQueue(state, getHashes(state, params), -Infinity);
+         return text("");
+      case "torrents/increasePrio":
+         moveInQueue(state, getHashes(state, params), -1);
+         return text("");
+      case "torrents/decreasePrio":
+         moveInQueue(state, getHashes(state, params), 1);
+         return text("");
+      case "torrents/bottomPrio":
+         moveInQueue(state, getHashes(state, params), Infinity);
+         return text("");
+      case "torrents/delete":
+         getHashes(state, params).forEach(transfer => state.transfers.delete(transfer.hash));
+         return text("");
+
+      default:
+         return text("Not Found", 404);
+   }
+}
@@ -0,0 +1,385 @@
+import type { Article } from "@/lib/types";
+
+// Models for the qbittorrent Web API (v2.11+, ie qbittorrent 5.x), as per
+// https://github.com/qbittorrent/qBittorrent/wiki/WebUI-API-(qBittorrent-5.0)
+
+export type ContentLayout = "Original" | "Subfolder" | "NoSubfolder";
+
+export type TorrentState =
+   | "allocating"
+   | "checkingDL"
+   | "checkingResumeData"
+   | "checkingUP"
+   | "downloading"
+   | "error"
+   | "forcedDL"
+   | "forcedMetaDL"
+   | "forcedUP"
+   | "metaDL"
+   | "missingFiles"
+   | "moving"
+   | "pausedDL"
+   | "pausedUP"
+   | "queuedDL"
+   | "queuedUP"
+   | "stalledDL"
+   | "stalledUP"
+   | "stoppedDL"
+   | "stoppedUP"
+   | "unknown"
+   | "uploading";
+
+export type TorrentFilter =
+   | "all"
+   | "downloading"
+   | "seeding"
+   | "completed"
+   | "stopped"
+   | "running"
+   | "active"
+   | "inactive"
+   | "stalled"
+   | "stalled_uploading"
+   | "stalled_downloading"
+   | "errored";
+
+export type TorrentInfo = {
+   added_on: number;
+   amount_left: number;
+   auto_tmm: boolean;
+   availability: number;
+   category: string;
+   completed: number;
+   completion_on: number;
+   content_path: string;
+   dl_limit: number;
+   dlspeed: number;
+   downloaded: number;
+   downloaded_session: number;
+   eta: number;
+   f_l_piece_prio: boolean;
+   force_start: boolean;
+   hash: string;
+   infohash_v1: string;
+   infohash_v2: string;
+   last_activity: number;
+   magnet_uri: string;
+   max_ratio: number;
+   max_seeding_time: number;
+   name: string;
+   num_complete: number;
+   num_incomplete: number;
+   num_leechs: number;
+   num_seeds: number;
+   priority: number;
+   progress: number;
+   ratio: number;
+   ratio_limit: number;
+   save_path: string;
+   seeding_time: number;
+   seeding_time_limit: number;
+   seen_complete: number;
+   seq_dl: boolean;
+   size: number;
+   state: TorrentState;
+   super_seeding: boolean;
+   tags: string;
+   time_active: number;
+   total_size: number;
+   tracker: string;
+   up_limit: number;
+   uploaded: number;
+   uploaded_session: number;
+   upspeed: number;
+};
+
+export type TorrentInfoQuery = {
+   filter?: TorrentFilter;
+   category?: string;
+   tag?: string;
+   sort?: keyof TorrentInfo;
+   reverse?: boolean;
+   limit?: number;
+   offset?: number;
+   hashes?: string[];
+};
+
+export type TorrentProperties = {
+   addition_date: number;
+   comment: string;
+   completion_date: number;
+   created_by: string;
+   creation_date: number;
+   dl_limit: number;
+   dl_speed: number;
+   dl_speed_avg: number;
+   eta: number;
+   hash: string;
+   infohash_v1: string;
+   infohash_v2: string;
+   is_private: boolean;
+   last_seen: number;
+   name: string;
+   nb_connections: number;
+   nb_connections_limit: number;
+   peers: number;
+   peers_total: number;
+   piece_size: number;
+   pieces_have: number;
+   pieces_num: number;
+   reannounce: number;
+   save_path: string;
+   seeding_time: number;
+   seeds: number;
+   seeds_total: number;
+   share_ratio: number;
+   time_elapsed: number;
+   total_downloaded: number;
+   total_downloaded_session: number;
+   total_size: number;
+   total_uploaded: number;
+   total_uploaded_session: number;
+   total_wasted: number;
+   up_limit: number;
+   up_speed: number;
+   up_speed_avg: number;
+};
+
+export enum TrackerStatus {
+   Disabled = 0,
+   NotContacted = 1,
+   Working = 2,
+   Updating = 3,
+   NotWorking = 4,
+}
+
+export type TorrentTracker = {
+   url: string;
+   status: TrackerStatus;
+   tier: number;
+   num_peers: number;
+   num_seeds: number;
+   num_leeches: number;
+   num_downloaded: number;
+   msg: string;
+};
+
+export type TorrentWebseed = {
+   url: string;
+};
+
+export enum FilePriority {
+   DoNotDownload = 0,
+   Normal = 1,
+   High = 6,
+   Maximum = 7,
+}
+
+export type TorrentContent = {
+   index: number;
+   name: string;
+   size: number;
+   progress: number;
+   priority: FilePriority;
+   is_seed?: boolean;
+   piece_range: [number, number];
+   availability: number;
+};
+
+export enum PieceState {
+   Missing = 0,
+   Downloading = 1,
+   Downloaded = 2,
+}
+
+export type Category = {
+   name: string;
+   savePath: string;
+};
+
+export type AddTorrentOptions = {
+   urls?: string[];
+   torrents?: Blob[];
+   savepath?: string;
+   cookie?: string;
+   category?: string;
+   tags?: string[];
+   skip_checking?: boolean;
+   stopped?: boolean;
+   rootFolder?: boolean;
+   rename?: string;
+   upLimit?: number;
+   dlLimit?: number;
+   ratioLimit?: number;
+   seedingTimeLimit?: number;
+   autoTMM?: boolean;
+   sequentialDownload?: boolean;
+   firstLastPiecePrio?: boolean;
+   addToTopOfQueue?: boolean;
+   contentLayout?: ContentLayout;
+};
+
+export type ServerState = {
+   alltime_dl: number;
+   alltime_ul: number;
+   connection_status: ConnectionStatus;
+   dht_nodes: number;
+   dl_info_data: number;
+   dl_info_speed: number;
+   dl_rate_limit: number;
+   free_space_on_disk: number;
+   queueing: boolean;
+   up_info_data: number;
+   up_info_speed: number;
+   up_rate_limit: number;
+   use_alt_speed_limits: boolean;
+};
+
+export type MainData = {
+   rid: number;
+   full_update?: boolean;
+   torrents?: Record<string, Partial<TorrentInfo>>;
+   torrents_removed?: string[];
+   categories?: Record<string, Category>;
+   categories_removed?: string[];
+   tags?: string[];
+   tags_removed?: string[];
+   server_state?: Partial<ServerState>;
+};
+
+export type TorrentPeer = {
+   client: string;
+   connection: string;
+   country: string;
+   country_code: string;
+   dl_speed: number;
+   downloaded: number;
+   files: string;
+   flags: string;
+   flags_desc: string;
+   ip: string;
+   port: number;
+   progress: number;
+   relevance: number;
+   up_speed: number;
+   uploaded: number;
+};
+
+export type TorrentPeers = {
+   rid: number;
+   full_update?: boolean;
+   peers?: Record<string, Partial<TorrentPeer>>;
+   peers_removed?: string[];
+   show_flags?: boolean;
+};
+
+export type ConnectionStatus = "connected" | "firewalled" | "disconnected";
+
+export type TransferInfo = {
+   connection_status: ConnectionStatus;
+   dht_nodes: number;
+   dl_info_data: number;
+   dl_info_speed: number;
+   dl_rate_limit: number;
+   up_info_data: number;
+   up_info_speed: number;
+   up_rate_limit: number;
+};
+
+export type BuildInfo = {
+   bitness: number;
+   boost: string;
+   libtorrent: string;
+   openssl: string;
+   qt: string;
+   zlib: string;
+};
+
+// Only the preferences that this app cares about are typed, the backend has well over a hundred of them.
+export type Preferences = {
+   save_path: string;
+   temp_path: string;
+   temp_path_enabled: boolean;
+   queueing_enabled: boolean;
+   max_active_downloads: number;
+   max_active_torrents: number;
+   max_active_uploads: number;
+   add_stopped_enabled: boolean;
+   torrent_content_layout: ContentLayout;
+   [key: string]: unknown;
+};
+
+export type RssArticle = Article & {
+   author?: string;
+   description?: string;
+};
+
+export type RssFeed = {
+   uid: string;
+   url: string;
+   title?: string;
+   lastBuildDate?: string;
+   isLoading?: boolean;
+   hasError?: boolean;
+   articles?: RssArticle[];
+};
+
+export type RssItems = { [path: string]: RssFeed | RssItems };
+
+export type SearchJob = {
+   id: number;
+};
+
+export type SearchStatus = {
+   id: number;
+   status: "Running" | "Stopped";
+   total: number;
+};
+
+export type SearchResult = {
+   descrLink: string;
+   fileName: string;
+   fileSize: number;
+   fileUrl: string;
+   nbLeechers: number;
+   nbSeeders: number;
+   pubDate: number;
+   siteUrl: string;
+};
+
+export type SearchResults = {
+   results: SearchResult[];
+   status: "Running" | "Stopped";
+   total: number;
+};
+
+export type SearchPlugin = {
+   enabled: boolean;
+   fullName: string;
+   name: string;
+   supportedCategories: Array<{ id: string; name: string }>;
+   url: string;
+   version: string;
+};
+
+export enum LogType {
+   Normal = 1,
+   Info = 2,
+   Warning = 4,
+   Critical = 8,
+}
+
+export type LogEntry = {
+   id: number;
+   message: string;
+   timestamp: number;
+   type: LogType;
+};
+
+export type PeerLogEntry = {
+   id: number;
+   ip: string;
+   timestamp: number;
+   blocked: boolean;
+   reason: string;
+};
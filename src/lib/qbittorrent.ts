@@ -0,0 +1,246 @@
+import { backendFetch, login, logout } from "@/lib/session";
+import type {
+   AddTorrentOptions,
+   BuildInfo,
+   Category,
+   FilePriority,
+   LogEntry,
+   MainData,
+   PeerLogEntry,
+   PieceState,
+   Preferences,
+   RssItems,
+   SearchJob,
+   SearchPlugin,
+   SearchResults,
+   SearchStatus,
+   TorrentContent,
+   TorrentInfo,
+   TorrentInfoQuery,
+   TorrentPeers,
+   TorrentProperties,
+   TorrentTracker,
+   TorrentWebseed,
+   TransferInfo,
+} from "@/lib/qbittorrent-types";
+import { LogType } from "@/lib/qbittorrent-types";
+
+type Params = Record<string, string | number | boolean | undefined>;
+
+type RequestOptions = {
+   params?: Params; // query string
+   form?: Params | FormData; // POST body
+};
+
+const DELIMITER = "|"; // qbittorrent's delimiter for lists of hashes, ids, urls, etc
+
+/**
+ * The single error type thrown by QBittorrentClient so that routes can report failures consistently.
+ */
+export class QBittorrentError extends Error {
+   /**
+    * @param message - human readable description of the failure
+    * @param endpoint - the API method that failed, eg torrents/add
+    * @param status - HTTP status returned by the backend, or 0 if the backend couldn't be reached
+    */
+   constructor(
+      message: string,
+      readonly endpoint: string,
+      readonly status: number,
+      options?: ErrorOptions,
+   ) {
+      super(message, options);
+      this.name = "QBittorrentError";
+   }
+
+   toJSON() {
+      return { error: this.message, endpoint: this.endpoint, status: this.status };
+   }
+}
+
+const toSearchParams = (params: Params): URLSearchParams => {
+   const searchParams = new URLSearchParams();
+   for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) searchParams.append(key, String(value));
+   }
+   return searchParams;
+};
+
+const join = (values: Array<string | number> | "all"): string => (values === "all" ? values : values.join(DELIMITER));
+
+/**
+ * Typed client for the qbittorrent Web API that goes through the session layer, so it is server-side only.
+ */
+export class QBittorrentClient {
+   constructor(readonly backendUrl: string) {}
+
+   private async request(method: string, { params, form }: RequestOptions = {}): Promise<Response> {
+      const query = params ? `?${toSearchParams(params)}` : "";
+      const path = `/api/v2/${method}${query}`;
+      const init: RequestInit = form ? { body: form instanceof FormData ? form : toSearchParams(form), method: "POST" } : {};
+
+      let response: Response;
+      try {
+         response = await backendFetch(this.backendUrl, path, init);
+      } catch (e: any) {
+         throw new QBittorrentError(`Failed to reach ${this.backendUrl}: ${e.message}`, method, 0, { cause: e });
+      }
+
+      if (!response.ok) {
+         const text = await response.text().catch(() => "");
+         throw new QBittorrentError(`${method} failed with HTTP ${response.status}${text ? `: ${text}` : ""}`, method, response.status);
+      }
+
+      return response;
+   }
+
+   private async json<T>(method: string, options?: RequestOptions): Promise<T> {
+      const response = await this.request(method, options);
+      try {
+         return (await response.json()) as T;
+      } catch (e: any) {
+         throw new QBittorrentError(`${method} returned malformed JSON`, method, response.status, { cause: e });
+      }
+   }
+
+   private async text(method: string, options?: RequestOptions): Promise<string> {
+      return (await this.request(method, options)).text();
+   }
+
+   private async action(method: string, form: Params | FormData = {}): Promise<void> {
+      await this.request(method, { form });
+   }
+
+   readonly auth = {
+      login: async (username: string, password: string): Promise<void> => {
+         try {
+            await login(this.backendUrl, username, password);
+         } catch (e: any) {
+            throw new QBittorrentError(e.message, "auth/login", 401, { cause: e });
+         }
+      },
+      logout: async (): Promise<void> => {
+         try {
+            await this.action("auth/logout");
+         } finally {
+            logout(this.backendUrl);
+         }
+      },
+   };
+
+   readonly app = {
+      version: () => this.text("app/version"),
+      webapiVersion: () => this.text("app/webapiVersion"),
+      buildInfo: () => this.json<BuildInfo>("app/buildInfo"),
+      preferences: () => this.json<Preferences>("app/preferences"),
+      setPreferences: (preferences: Partial<Preferences>) =>
+         this.action("app/setPreferences", { json: JSON.stringify(preferences) }),
+      defaultSavePath: () => this.text("app/defaultSavePath"),
+   };
+
+   readonly transfer = {
+      info: () => this.json<TransferInfo>("transfer/info"),
+      speedLimitsMode: async () => (await this.text("transfer/speedLimitsMode")) === "1",
+      toggleSpeedLimitsMode: () => this.action("transfer/toggleSpeedLimitsMode"),
+      downloadLimit: async () => Number(await this.text("transfer/downloadLimit")),
+      setDownloadLimit: (limit: number) => this.action("transfer/setDownloadLimit", { limit }),
+      uploadLimit: async () => Number(await this.text("transfer/uploadLimit")),
+      setUploadLimit: (limit: number) => this.action("transfer/setUploadLimit", { limit }),
+      banPeers: (peers: string[]) => this.action("transfer/banPeers", { peers: join(peers) }),
+   };
+
+   readonly sync = {
+      maindata: (rid = 0) => this.json<MainData>("sync/maindata", { params: { rid } }),
+      torrentPeers: (hash: string, rid = 0) => this.json<TorrentPeers>("sync/torrentPeers", { params: { hash, rid } }),
+   };
+
+   readonly torrents = {
+      info: ({ hashes, ...query }: TorrentInfoQuery = {}) =>
+         this.json<TorrentInfo[]>("torrents/info", { params: { ...query, hashes: hashes && join(hashes) } }),
+      properties: (hash: string) => this.json<TorrentProperties>("torrents/properties", { params: { hash } }),
+      trackers: (hash: string) => this.json<TorrentTracker[]>("torrents/trackers", { params: { hash } }),
+      webseeds: (hash: string) => this.json<TorrentWebseed[]>("torrents/webseeds", { params: { hash } }),
+      files: (hash: string) => this.json<TorrentContent[]>("torrents/files", { params: { hash } }),
+      pieceStates: (hash: string) => this.json<PieceState[]>("torrents/pieceStates", { params: { hash } }),
+      pieceHashes: (hash: string) => this.json<string[]>("torrents/pieceHashes", { params: { hash } }),
+      add: async ({ urls, torrents, tags, ...options }: AddTorrentOptions): Promise<void> => {
+         const formData = new FormData();
+         if (urls?.length) formData.append("urls", urls.join("\n"));
+         torrents?.forEach((torrent, i) => formData.append("torrents", torrent, `${i}.torrent`));
+         if (tags?.length) formData.append("tags", tags.join(","));
+         for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined) formData.append(key, String(value));
+         }
+         const text = await this.text("torrents/add", { form: formData });
+         if (text.trim() === "Fails.") throw new QBittorrentError("torrents/add rejected the torrent", "torrents/add", 200);
+      },
+      stop: (hashes: string[] | "all") => this.action("torrents/stop", { hashes: join(hashes) }),
+      start: (hashes: string[] | "all") => this.action("torrents/start", { hashes: join(hashes) }),
+      delete: (hashes: string[] | "all", deleteFiles = false) =>
+         this.action("torrents/delete", { hashes: join(hashes), deleteFiles }),
+      recheck: (hashes: string[] | "all") => this.action("torrents/recheck", { hashes: join(hashes) }),
+      reannounce: (hashes: string[] | "all") => this.action("torrents/reannounce", { hashes: join(hashes) }),
+      setForceStart: (hashes: string[] | "all", value: boolean) =>
+         this.action("torrents/setForceStart", { hashes: join(hashes), value }),
+      addTrackers: (hash: string, urls: string[]) => this.action("torrents/addTrackers", { hash, urls: urls.join("\n") }),
+      removeTrackers: (hash: string, urls: string[]) => this.action("torrents/removeTrackers", { hash, urls: join(urls) }),
+      increasePrio: (hashes: string[] | "all") => this.action("torrents/increasePrio", { hashes: join(hashes) }),
+      decreasePrio: (hashes: string[] | "all") => this.action("torrents/decreasePrio", { hashes: join(hashes) }),
+      topPrio: (hashes: string[] | "all") => this.action("torrents/topPrio", { hashes: join(hashes) }),
+      bottomPrio: (hashes: string[] | "all") => this.action("torrents/bottomPrio", { hashes: join(hashes) }),
+      filePrio: (hash: string, ids: number[], priority: FilePriority) =>
+         this.action("torrents/filePrio", { hash, id: join(ids), priority }),
+      setLocation: (hashes: string[] | "all", location: string) =>
+         this.action("torrents/setLocation", { hashes: join(hashes), location }),
+      rename: (hash: string, name: string) => this.action("torrents/rename", { hash, name }),
+      renameFile: (hash: string, oldPath: string, newPath: string) =>
+         this.action("torrents/renameFile", { hash, oldPath, newPath }),
+      renameFolder: (hash: string, oldPath: string, newPath: string) =>
+         this.action("torrents/renameFolder", { hash, oldPath, newPath }),
+      categories: () => this.json<Record<string, Category>>("torrents/categories"),
+      createCategory: (category: string, savePath = "") => this.action("torrents/createCategory", { category, savePath }),
+      setCategory: (hashes: string[] | "all", category: string) =>
+         this.action("torrents/setCategory", { hashes: join(hashes), category }),
+      tags: () => this.json<string[]>("torrents/tags"),
+      createTags: (tags: string[]) => this.action("torrents/createTags", { tags: tags.join(",") }),
+      addTags: (hashes: string[] | "all", tags: string[]) =>
+         this.action("torrents/addTags", { hashes: join(hashes), tags: tags.join(",") }),
+      toggleSequentialDownload: (hashes: string[] | "all") =>
+         this.action("torrents/toggleSequentialDownload", { hashes: join(hashes) }),
+      toggleFirstLastPiecePrio: (hashes: string[] | "all") =>
+         this.action("torrents/toggleFirstLastPiecePrio", { hashes: join(hashes) }),
+   };
+
+   readonly rss = {
+      items: (withData = false) => this.json<RssItems>("rss/items", { params: { withData } }),
+      markAsRead: (itemPath: string, articleId?: string) => this.action("rss/markAsRead", { itemPath, articleId }),
+      addFeed: (url: string, path?: string) => this.action("rss/addFeed", { url, path }),
+      removeItem: (path: string) => this.action("rss/removeItem", { path }),
+      refreshItem: (itemPath: string) => this.action("rss/refreshItem", { itemPath }),
+   };
+
+   readonly search = {
+      start: (pattern: string, plugins: string[] | "all" | "enabled" = "enabled", category = "all") =>
+         this.json<SearchJob>("search/start", { form: { pattern, plugins: Array.isArray(plugins) ? join(plugins) : plugins, category } }),
+      stop: (id: number) => this.action("search/stop", { id }),
+      status: (id?: number) => this.json<SearchStatus[]>("search/status", { params: { id } }),
+      results: (id: number, limit?: number, offset?: number) =>
+         this.json<SearchResults>("search/results", { params: { id, limit, offset } }),
+      delete: (id: number) => this.action("search/delete", { id }),
+      plugins: () => this.json<SearchPlugin[]>("search/plugins"),
+   };
+
+   readonly log = {
+      main: (types: LogType[] = [], lastKnownId = -1) =>
+         this.json<LogEntry[]>("log/main", {
+            params: {
+               normal: types.length === 0 || types.includes(LogType.Normal),
+               info: types.length === 0 || types.includes(LogType.Info),
+               warning: types.length === 0 || types.includes(LogType.Warning),
+               critical: types.length === 0 || types.includes(LogType.Critical),
+               last_known_id: lastKnownId,
+            },
+         }),
+      peers: (lastKnownId = -1) => this.json<PeerLogEntry[]>("log/peers", { params: { last_known_id: lastKnownId } }),
+   };
+}
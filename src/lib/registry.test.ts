@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+   getBackend,
+   getBackends,
+   getMetadataPolicy,
+   isAllowedSource,
+   isDemo,
+   isPrivateAllowed,
+   rememberArticleUrls,
+} from "@/lib/registry";
+
+/**
+ * Registers the configuration afresh, as if from backends.json.
+ * @param config
+ */
+const configure = (config: unknown) => {
+   delete (globalThis as any).torrentViewRegistry;
+   vi.stubEnv("TORRENTVIEW_BACKENDS", JSON.stringify(config));
+};
+
+describe("registry", () => {
+   beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      delete (globalThis as any).torrentViewRegistry;
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+   });
+
+   it("registers the valid backends and leaves out the rest", () => {
+      configure({
+         backends: [
+            { id: "home", url: "http://localhost:8080/" },
+            { id: "nas", name: "NAS", type: "transmission", url: "http://nas:9091/transmission", username: "u", password: "p" },
+            { id: "old", type: "rtorrent", url: "http://old" },
+            { id: "nourl" },
+            { id: "bad", url: "http://bad", password: 1234 },
+            "junk",
+         ],
+      });
+      expect(getBackends()).toEqual([
+         { credentials: null, id: "home", name: "home", type: "qbittorrent", url: "http://localhost:8080" },
+         {
+            credentials: { username: "u", password: "p" },
+            id: "nas",
+            name: "NAS",
+            type: "transmission",
+            url: "http://nas:9091/transmission",
+         },
+      ]);
+      expect(getBackend("old")).toBeUndefined();
+   });
+
+   it("ignores metadata settings of the wrong type", () => {
+      configure({ backends: [], metadata: { allowedDomains: "example.com", allowPrivate: "yes", privateOrigins: [1] } });
+      expect(getMetadataPolicy()).toEqual({ allowedDomains: [], allowPrivate: false, privateOrigins: [] });
+   });
+
+   it("registers nothing for a configuration that isn't an object", () => {
+      configure([{ id: "home", url: "http://localhost:8080" }]);
+      expect(getBackends()).toEqual([]);
+   });
+
+   it("allows private addresses only on the private origins", () => {
+      configure({ backends: [], metadata: { privateOrigins: ["http://localhost:3000/api/mock", "not a url"] } });
+      expect(getMetadataPolicy().privateOrigins).toEqual(["http://localhost:3000"]);
+      expect(isPrivateAllowed(new URL("http://localhost:3000/api/mock/a.torrent"))).toBe(true);
+      expect(isPrivateAllowed(new URL("http://localhost:8080/a.torrent"))).toBe(false);
+      expect(isPrivateAllowed(new URL("http://127.0.0.1:3000/a.torrent"))).toBe(false);
+   });
+
+   it("allows private addresses everywhere if allowPrivate is set", () => {
+      configure({ backends: [], metadata: { allowPrivate: true } });
+      expect(isPrivateAllowed(new URL("http://10.0.0.1/a.torrent"))).toBe(true);
+   });
+
+   it("serves the demo backend only without a configuration", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      // NOTE: There's no backends.json in the working directory.
+      vi.stubEnv("TORRENTVIEW_BACKENDS", undefined);
+      vi.stubEnv("TORRENTVIEW_CONFIG", undefined);
+      vi.stubEnv("PORT", "9002");
+      expect(isDemo()).toBe(true);
+      expect(getBackends()).toMatchObject([{ id: "demo", url: "http://localhost:9002/api/mock" }]);
+      configure({ backends: [] });
+      expect(isDemo()).toBe(false);
+   });
+
+   it("allows the sources that are magnet links, RSS articles' URLs or on the allowed domains", () => {
+      configure({ backends: [], metadata: { allowedDomains: ["Example.com"] } });
+      rememberArticleUrls("home", ["http://feed.example.org/a.torrent"]);
+      expect(isAllowedSource("magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567")).toBe(true);
+      expect(isAllowedSource("http://feed.example.org/a.torrent")).toBe(true);
+      expect(isAllowedSource("https://example.com/a.torrent")).toBe(true);
+      expect(isAllowedSource("https://dl.example.com/a.torrent")).toBe(true);
+      expect(isAllowedSource("https://notexample.com/a.torrent")).toBe(false);
+      expect(isAllowedSource("http://feed.example.org/b.torrent")).toBe(false);
+      expect(isAllowedSource("not a url")).toBe(false);
+   });
+});
@@ -0,0 +1,251 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { getAdapter } from "@/lib/adapters";
+import type { BackendCredentials, BackendType } from "@/lib/types";
+
+export type RegisteredBackend = {
+   credentials: BackendCredentials | null;
+   id: string;
+   name: string;
+   type: BackendType;
+   url: string;
+};
+
+export type MetadataPolicy = {
+   allowedDomains: string[]; // hosts, and their subdomains, that /api/metadata may fetch from besides the RSS articles
+   allowPrivate: boolean; // whether /api/metadata may fetch from private, loopback and link-local addresses
+   privateOrigins: string[]; // the origins that /api/metadata may fetch from even so, eg the demo's mock on localhost
+};
+
+const BACKEND_TYPES: BackendType[] = ["deluge", "qbittorrent", "transmission"];
+
+/**
+ * A backend as per the configuration, see backends.example.json.
+ */
+type BackendConfig = {
+   id: string;
+   name?: string;
+   password?: string;
+   type?: BackendType;
+   url: string;
+   username?: string;
+};
+
+/**
+ * The configuration, see backends.example.json, once validated.
+ */
+type Config = {
+   backends: BackendConfig[];
+   metadata: MetadataPolicy;
+};
+
+type Registry = {
+   backends: Map<string, RegisteredBackend>;
+   metadata: MetadataPolicy;
+   articleUrls: Map<string, Set<string>>; // backend id -> torrent URLs of the articles the RSS route produced
+   demo: boolean; // whether nothing is configured, so that the demo backend, and only then the mock, is served
+};
+
+// NOTE: Stash the registry on globalThis so that it is loaded once and shared by every route bundle.
+const globalForRegistry = globalThis as unknown as { torrentViewRegistry?: Registry };
+
+/**
+ * The mock backend, see ./mock.ts, that is served when nothing is configured so that the app works out of the box, on the port
+ * that Next.js put the server on, be it next dev or next start.
+ */
+const getDemoConfig = (): Config => {
+   const url = process.env.TORRENTVIEW_DEMO_URL ?? `http://localhost:${process.env.PORT ?? 3000}/api/mock`;
+   return {
+      backends: [{ id: "demo", name: "Demo", url }],
+      // NOTE: The mock serves its .torrent files from localhost.
+      metadata: { allowedDomains: [], allowPrivate: false, privateOrigins: [new URL(url).origin] },
+   };
+};
+
+/**
+ * @param origin - as per the configuration
+ * @returns the origin, normalized, or null if it isn't a URL
+ */
+const toOrigin = (origin: unknown): string | null => {
+   try {
+      return new URL(String(origin)).origin;
+   } catch (e) {
+      return null;
+   }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+   typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * @param value - as per the configuration
+ * @param name - of the setting, for the error
+ * @returns the strings, or none if the value isn't a list of them
+ */
+const toStrings = (value: unknown, name: string): string[] => {
+   if (value === undefined) return [];
+   if (Array.isArray(value) && value.every(item => typeof item === "string")) return value;
+   console.error(`Ignoring ${name}, which isn't a list of strings`);
+   return [];
+};
+
+/**
+ * @param entry - a backend as per the configuration
+ * @returns the backend, or null if it's amiss, which is logged
+ */
+const toBackendConfig = (entry: unknown): BackendConfig | null => {
+   if (!isObject(entry) || !entry.id || typeof entry.url !== "string" || !entry.url) {
+      console.error("Ignoring backend without an id or url:", isObject(entry) ? (entry.id ?? entry.name) : entry);
+      return null;
+   }
+   const id = String(entry.id);
+   if (entry.type !== undefined && !BACKEND_TYPES.includes(entry.type as BackendType)) {
+      console.error(`Ignoring backend ${id} of unknown type ${entry.type}, expected one of ${BACKEND_TYPES.join(", ")}`);
+      return null;
+   }
+   const strings = (["name", "password", "username"] as const).filter(key => entry[key] !== undefined);
+   const invalid = strings.find(key => typeof entry[key] !== "string");
+   if (invalid) {
+      console.error(`Ignoring backend ${id}, whose ${invalid} isn't a string`);
+      return null;
+   }
+   const { name, password, type, url, username } = entry as Omit<BackendConfig, "id">;
+   return { id, name, password, type, url, username };
+};
+
+/**
+ * Checks the configuration, leaving out the backends and settings that are amiss, rather than fail altogether.
+ * @param config - as parsed from the JSON
+ * @returns the configuration, as far as it's valid
+ */
+const validate = (config: unknown): Config => {
+   if (!isObject(config)) console.error("Ignoring the backend configuration, which isn't an object");
+   const { backends, metadata } = isObject(config) ? config : {};
+   const policy = isObject(metadata) ? metadata : {};
+   return {
+      backends: (Array.isArray(backends) ? backends : []).map(toBackendConfig).filter(backend => !!backend),
+      metadata: {
+         allowedDomains: toStrings(policy.allowedDomains, "metadata.allowedDomains").map(domain => domain.toLowerCase()),
+         allowPrivate: policy.allowPrivate === true,
+         privateOrigins: toStrings(policy.privateOrigins, "metadata.privateOrigins")
+            .map(toOrigin)
+            .filter((origin): origin is string => !!origin),
+      },
+   };
+};
+
+/**
+ * Loads the backends from $TORRENTVIEW_BACKENDS, as JSON, or else from the file named by $TORRENTVIEW_CONFIG, which
+ * defaults to backends.json in the working directory.  See backends.example.json for the format.
+ */
+const load = (): Registry => {
+   let config: Config = { backends: [], metadata: { allowedDomains: [], allowPrivate: false, privateOrigins: [] } };
+   let demo = false;
+   try {
+      const json =
+         process.env.TORRENTVIEW_BACKENDS ?? readFileSync(resolve(process.env.TORRENTVIEW_CONFIG ?? "backends.json"), "utf-8");
+      config = validate(JSON.parse(json));
+   } catch (e: any) {
+      if (e.code === "ENOENT" && !process.env.TORRENTVIEW_CONFIG) {
+         console.warn("No backends.json, so serving the demo backend.");
+         config = getDemoConfig();
+         demo = true;
+      } else {
+         console.error("Failed to load the backend configuration, so no backends are registered:", e);
+      }
+   }
+
+   const backends = new Map<string, RegisteredBackend>();
+   for (const entry of config.backends) {
+      const backend: RegisteredBackend = {
+         credentials: entry.username || entry.password ? { username: entry.username ?? "", password: entry.password ?? "" } : null,
+         id: entry.id,
+         name: entry.name ?? entry.id,
+         type: entry.type ?? "qbittorrent",
+         url: entry.url.replace(/\/+$/, ""),
+      };
+      if (backend.credentials) getAdapter(backend).configure(backend.credentials);
+      backends.set(backend.id, backend);
+   }
+
+   return { backends, metadata: config.metadata, articleUrls: new Map(), demo };
+};
+
+const getRegistry = (): Registry => (globalForRegistry.torrentViewRegistry ??= load());
+
+/**
+ * @returns every registered backend
+ */
+export function getBackends(): RegisteredBackend[] {
+   return Array.from(getRegistry().backends.values());
+}
+
+/**
+ * @param id - the backend's id, as per the configuration
+ * @returns the backend or undefined if no such backend is registered
+ */
+export function getBackend(id: string | null): RegisteredBackend | undefined {
+   return id ? getRegistry().backends.get(id) : undefined;
+}
+
+/**
+ * @returns whether the demo backend is served, ie there's no backends.json, which is the only time that /api/mock is served
+ */
+export function isDemo(): boolean {
+   return getRegistry().demo;
+}
+
+/**
+ * @returns the rules for what /api/metadata may fetch
+ */
+export function getMetadataPolicy(): MetadataPolicy {
+   return getRegistry().metadata;
+}
+
+/**
+ * @param url
+ * @returns whether /api/metadata may fetch from the URL although its host is private, as per the metadata policy
+ */
+export function isPrivateAllowed(url: URL): boolean {
+   const { allowPrivate, privateOrigins } = getMetadataPolicy();
+   return allowPrivate || privateOrigins.includes(url.origin);
+}
+
+/**
+ * Records the torrent URLs of the articles that the RSS route produced for a backend, replacing the previous ones.
+ * @param backendId
+ * @param urls
+ */
+export function rememberArticleUrls(backendId: string, urls: Iterable<string>): void {
+   getRegistry().articleUrls.set(backendId, new Set(urls));
+}
+
+/**
+ * @param url
+ * @returns whether the RSS route produced the URL for any backend
+ */
+export function isArticleUrl(url: string): boolean {
+   for (const urls of getRegistry().articleUrls.values()) {
+      if (urls.has(url)) return true;
+   }
+   return false;
+}
+
+/**
+ * Decides whether the server may fetch a torrent from the URL, either itself for /api/metadata or via the backend.
+ * @param url
+ * @returns whether the URL is a magnet link, an RSS article's torrent URL or on one of the configured domains
+ */
+export function isAllowedSource(url: string): boolean {
+   // NOTE: Magnet links are resolved via DHT and trackers, not fetched, and /api/metadata drops their private trackers and sources.
+   if (url.startsWith("magnet:")) return true;
+   if (isArticleUrl(url)) return true;
+
+   let hostname: string;
+   try {
+      hostname = new URL(url).hostname.toLowerCase();
+   } catch (e) {
+      return false;
+   }
+   return getMetadataPolicy().allowedDomains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
@@ -0,0 +1,147 @@
+import { lookup } from "dns/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { assertFetchable, ForbiddenUrlError, isPrivateAddress, safeFetch, sanitizeMagnet } from "@/lib/safe-fetch";
+
+vi.mock("dns/promises", () => ({ lookup: vi.fn() }));
+
+// NOTE: Resolve the made-up hosts without any DNS, the internal one to a private address.
+const ADDRESSES: Record<string, string> = { "internal.example": "10.1.2.3", "public.example": "93.184.216.34" };
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+describe("isPrivateAddress", () => {
+   it.each([
+      "0.0.0.0",
+      "10.0.0.1",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "224.0.0.1",
+      "255.255.255.255",
+   ])("is true for the IPv4 address %s", address => {
+      expect(isPrivateAddress(address)).toBe(true);
+   });
+
+   it.each(["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "febf::1", "::ffff:127.0.0.1", "::ffff:7f00:1", "::ffff:a00:1"])(
+      "is true for the IPv6 address %s",
+      address => {
+         expect(isPrivateAddress(address)).toBe(true);
+      },
+   );
+
+   it.each(["1.1.1.1", "93.184.216.34", "100.128.0.1", "172.32.0.1", "2606:4700::1111", "::ffff:101:101", "fec0::1"])(
+      "is false for the public address %s",
+      address => {
+         expect(isPrivateAddress(address)).toBe(false);
+      },
+   );
+});
+
+describe("assertFetchable", () => {
+   beforeEach(() => {
+      vi.mocked(lookup).mockImplementation((async (hostname: string) => [{ address: ADDRESSES[hostname], family: 4 }]) as any);
+   });
+
+   it.each([
+      "http://127.0.0.1/a.torrent",
+      "http://2130706433/a.torrent", // 127.0.0.1, as URL normalizes it
+      "http://[::1]/a.torrent",
+      "http://[::ffff:127.0.0.1]/a.torrent",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://internal.example/a.torrent",
+   ])("rejects %s", async url => {
+      await expect(assertFetchable(new URL(url), false)).rejects.toThrow(ForbiddenUrlError);
+   });
+
+   it("rejects protocols other than http(s)", async () => {
+      await expect(assertFetchable(new URL("file:///etc/passwd"), false)).rejects.toThrow("Unsupported protocol file:");
+   });
+
+   it("allows public hosts", async () => {
+      await expect(assertFetchable(new URL("https://public.example/a.torrent"), false)).resolves.toBeUndefined();
+   });
+
+   it("allows private hosts if asked to, for every URL or for those that the function allows", async () => {
+      await expect(assertFetchable(new URL("http://internal.example/a.torrent"), true)).resolves.toBeUndefined();
+      const allowPrivate = (url: URL) => url.origin === "http://localhost:9002";
+      await expect(assertFetchable(new URL("http://localhost:9002/api/mock/a.torrent"), allowPrivate)).resolves.toBeUndefined();
+      await expect(assertFetchable(new URL("http://127.0.0.1:9002/a.torrent"), allowPrivate)).rejects.toThrow(ForbiddenUrlError);
+   });
+});
+
+describe("safeFetch", () => {
+   beforeEach(() => {
+      vi.mocked(lookup).mockImplementation((async (hostname: string) => [{ address: ADDRESSES[hostname], family: 4 }]) as any);
+   });
+
+   afterEach(() => {
+      vi.unstubAllGlobals();
+   });
+
+   it("follows redirects to public hosts", async () => {
+      const fetch = vi.fn().mockResolvedValueOnce(redirect("/b.torrent")).mockResolvedValueOnce(new Response("d4:infode"));
+      vi.stubGlobal("fetch", fetch);
+      const response = await safeFetch("https://public.example/a.torrent");
+      expect(await response.text()).toBe("d4:infode");
+      expect(fetch.mock.calls.map(([url]) => String(url))).toEqual([
+         "https://public.example/a.torrent",
+         "https://public.example/b.torrent",
+      ]);
+      expect(fetch).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ redirect: "manual" }));
+   });
+
+   it.each(["http://127.0.0.1/a.torrent", "http://[::ffff:7f00:1]/a.torrent", "http://internal.example/a.torrent"])(
+      "rejects a redirect to %s without following it",
+      async location => {
+         const fetch = vi.fn().mockResolvedValue(redirect(location));
+         vi.stubGlobal("fetch", fetch);
+         await expect(safeFetch("https://public.example/a.torrent")).rejects.toThrow(ForbiddenUrlError);
+         expect(fetch).toHaveBeenCalledTimes(1);
+      },
+   );
+
+   it("gives up after too many redirects", async () => {
+      vi.stubGlobal(
+         "fetch",
+         vi.fn(async () => redirect("https://public.example/again")),
+      );
+      await expect(safeFetch("https://public.example/a.torrent")).rejects.toThrow("Too many redirects");
+   });
+});
+
+describe("sanitizeMagnet", () => {
+   beforeEach(() => {
+      vi.mocked(lookup).mockImplementation((async (hostname: string) => [{ address: ADDRESSES[hostname], family: 4 }]) as any);
+   });
+
+   const XT = "xt=urn:btih:0123456789abcdef0123456789abcdef01234567";
+
+   it("drops the private trackers, sources and web seeds, and keeps the rest as it was", async () => {
+      const uri = [
+         `magnet:?${XT}`,
+         "dn=Name%20Here",
+         `tr=${encodeURIComponent("udp://public.example:1337/announce")}`,
+         `tr=${encodeURIComponent("http://internal.example/announce")}`,
+         `xs=${encodeURIComponent("http://127.0.0.1/a.torrent")}`,
+         `as=${encodeURIComponent("file:///etc/passwd")}`,
+         `ws=${encodeURIComponent("https://public.example/seed")}`,
+         `tr.1=${encodeURIComponent("http://[::1]/announce")}`,
+      ].join("&");
+      expect(await sanitizeMagnet(uri, false)).toBe(
+         [
+            `magnet:?${XT}`,
+            "dn=Name%20Here",
+            `tr=${encodeURIComponent("udp://public.example:1337/announce")}`,
+            `ws=${encodeURIComponent("https://public.example/seed")}`,
+         ].join("&"),
+      );
+   });
+
+   it("keeps everything if private addresses are allowed", async () => {
+      const uri = `magnet:?${XT}&tr=${encodeURIComponent("http://127.0.0.1/announce")}`;
+      expect(await sanitizeMagnet(uri, true)).toBe(uri);
+   });
+});
@@ -0,0 +1,123 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+const MAX_REDIRECTS = 5; // HARD-CODED
+const FETCH_PROTOCOLS = new Set(["http:", "https:"]);
+const TRACKER_PROTOCOLS = new Set(["http:", "https:", "udp:", "ws:", "wss:"]);
+const MAGNET_URL_PARAMS = /^(as|tr|ws|xs)(\.\d+)?$/; // the trackers, sources and web seeds, which a client connects to
+
+/**
+ * Whether to allow private addresses, for every URL or only for those that the function allows.
+ */
+export type AllowPrivate = boolean | ((url: URL) => boolean);
+
+/**
+ * Thrown when a URL is not allowed to be fetched, as opposed to failing to be fetched.
+ */
+export class ForbiddenUrlError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "ForbiddenUrlError";
+   }
+}
+
+const isPrivateIPv4 = (address: string): boolean => {
+   const [a, b] = address.split(".").map(Number);
+   return (
+      a === 0 || // "this" network
+      a === 10 ||
+      a === 127 || // loopback
+      (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local, including cloud metadata services
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224 // multicast and reserved
+   );
+};
+
+const isPrivateIPv6 = (address: string): boolean => {
+   const normalized = address.toLowerCase();
+   // NOTE: IPv4-mapped addresses, which URL writes in hex, eg ::ffff:7f00:1 for ::ffff:127.0.0.1.
+   const mapped = normalized.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+   if (mapped) {
+      const [high, low] = [mapped[2], mapped[3]].map(hex => parseInt(hex, 16));
+      return isPrivateIPv4(mapped[1] ?? [high >> 8, high & 255, low >> 8, low & 255].join("."));
+   }
+   return (
+      normalized === "::" ||
+      normalized === "::1" ||
+      normalized.startsWith("fc") || // unique local, fc00::/7
+      normalized.startsWith("fd") ||
+      /^fe[89ab]/.test(normalized) // link-local, fe80::/10
+   );
+};
+
+/**
+ * @param address - an IPv4 or IPv6 address
+ * @returns whether the address is private, loopback, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+   return isIP(address) === 6 ? isPrivateIPv6(address) : isPrivateIPv4(address);
+}
+
+/**
+ * Rejects URLs that aren't http(s) or whose host resolves to a private address, unless allowPrivate.
+ * @param url
+ * @param allowPrivate
+ * @param protocols - to allow instead of http(s), eg udp for trackers
+ */
+export async function assertFetchable(url: URL, allowPrivate: AllowPrivate, protocols = FETCH_PROTOCOLS): Promise<void> {
+   if (!protocols.has(url.protocol)) throw new ForbiddenUrlError(`Unsupported protocol ${url.protocol}`);
+   if (typeof allowPrivate === "function" ? allowPrivate(url) : allowPrivate) return;
+
+   const hostname = url.hostname.replace(/^\[|\]$/g, ""); // IPv6 literals are bracketed
+   const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(entry => entry.address);
+   if (addresses.some(isPrivateAddress)) throw new ForbiddenUrlError(`${url.hostname} resolves to a private address`);
+}
+
+/**
+ * fetch() for URLs that came from outside, which follows redirects itself so that every hop is checked by assertFetchable().
+ * NOTE: The check and the connection resolve the host separately, so this doesn't defend against DNS rebinding.
+ * @param input - the URL to fetch
+ * @param init - as per fetch(), except that redirect is ignored
+ * @param allowPrivate - as per assertFetchable()
+ * @returns the final response
+ */
+export async function safeFetch(input: string, init: RequestInit = {}, allowPrivate: AllowPrivate = false): Promise<Response> {
+   let url = new URL(input);
+   for (let redirects = 0; redirects <= MAX_REDIRECTS; ++redirects) {
+      await assertFetchable(url, allowPrivate);
+      const response = await fetch(url, { ...init, redirect: "manual" });
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) return response;
+      url = new URL(location, url);
+   }
+   throw new Error(`Too many redirects fetching ${input}`);
+}
+
+/**
+ * Drops the trackers, sources and web seeds of a magnet link that assertFetchable() doesn't allow, since whatever resolves the
+ * link connects to them itself.
+ * @param uri - the magnet link
+ * @param allowPrivate - as per assertFetchable()
+ * @returns the magnet link with only the allowed URLs, and its other params as they were
+ */
+export async function sanitizeMagnet(uri: string, allowPrivate: AllowPrivate): Promise<string> {
+   if (allowPrivate === true) return uri;
+   const kept: string[] = [];
+   // NOTE: Keep each param as it was written, since magnet parsers don't all decode the xt param.
+   for (const param of uri.slice(uri.indexOf("?") + 1).split("&")) {
+      const key = param.split("=")[0];
+      const value = param.slice(key.length + 1);
+      if (MAGNET_URL_PARAMS.test(key)) {
+         try {
+            const url = new URL(decodeURIComponent(value));
+            await assertFetchable(url, allowPrivate, key.startsWith("tr") ? TRACKER_PROTOCOLS : FETCH_PROTOCOLS);
+         } catch (e) {
+            continue; // NOTE: Including the URLs that don't parse or resolve, which can't be checked.
+         }
+      }
+      kept.push(param);
+   }
+   return `magnet:?${kept.join("&")}`;
+}
@@ -0,0 +1,101 @@
+type Credentials = {
+   username: string;
+   password: string;
+};
+
+type Session = {
+   credentials: Credentials | null;
+   sid: string | null;
+};
+
+// NOTE: Stash the sessions on globalThis so that they survive hot reloads and are shared by every route bundle.
+const globalForSessions = globalThis as unknown as { qbittorrentSessions?: Map<string, Session> };
+const sessions = (globalForSessions.qbittorrentSessions ??= new Map<string, Session>());
+
+const regexSID = /(?:^|;\s*)SID=([^;]+)/;
+
+const getSession = (backendUrl: string): Session => {
+   let session = sessions.get(backendUrl);
+   if (!session) {
+      session = { credentials: null, sid: null };
+      sessions.set(backendUrl, session);
+   }
+   return session;
+};
+
+const authenticate = async (backendUrl: string, credentials: Credentials): Promise<string> => {
+   const url = `${backendUrl}/api/v2/auth/login`;
+   const response = await fetch(url, {
+      body: new URLSearchParams({ username: credentials.username, password: credentials.password }),
+      method: "POST",
+   });
+
+   if (response.status === 403) throw new Error(`Too many failed login attempts, ${backendUrl} has banned this address`);
+   if (!response.ok) throw new Error(`Failed to POST to ${url}: ${response.status}`);
+
+   const text = await response.text();
+   if (text.trim() !== "Ok.") throw new Error(`Invalid username or password for ${backendUrl}`);
+
+   for (const cookie of response.headers.getSetCookie()) {
+      const matched = cookie.match(regexSID);
+      if (matched) return matched[1];
+   }
+
+   // qbittorrent doesn't issue a cookie when authentication is bypassed, eg for localhost.
+   return "";
+};
+
+/**
+ * Logs into the qbittorrent backend and remembers the credentials so that expired sessions can be renewed transparently.
+ * @param backendUrl - base URL of the qbittorrent Web UI
+ * @param username
+ * @param password
+ */
+export async function login(backendUrl: string, username: string, password: string): Promise<void> {
+   const session = getSession(backendUrl);
+   const credentials = { username, password };
+   session.sid = await authenticate(backendUrl, credentials);
+   session.credentials = credentials;
+}
+
+/**
+ * Remembers the credentials for the backend without logging in, which happens lazily on the first 403.
+ * @param backendUrl - base URL of the qbittorrent Web UI
+ * @param credentials
+ */
+export function configure(backendUrl: string, credentials: Credentials): void {
+   getSession(backendUrl).credentials = credentials;
+}
+
+/**
+ * Forgets the credentials and session cookie for the backend.
+ * @param backendUrl - base URL of the qbittorrent Web UI
+ */
+export function logout(backendUrl: string): void {
+   sessions.delete(backendUrl);
+}
+
+/**
+ * Drop-in replacement for fetch() for qbittorrent Web API calls that sends the session cookie and logs in again on a 403.
+ * @param backendUrl - base URL of the qbittorrent Web UI
+ * @param path - API path, eg /api/v2/rss/items
+ * @param init - as per fetch()
+ * @returns the backend's response
+ */
+export async function backendFetch(backendUrl: string, path: string, init: RequestInit = {}): Promise<Response> {
+   const session = getSession(backendUrl);
+   const url = `${backendUrl}${path}`;
+
+   const send = () => {
+      const headers = new Headers(init.headers);
+      if (session.sid) headers.set("Cookie", `SID=${session.sid}`);
+      return fetch(url, { ...init, headers });
+   };
+
+   const response = await send();
+   if (response.status !== 403 || !session.credentials) return response;
+
+   // The session expired, or the backend restarted, so log in again and retry once.
+   session.sid = await authenticate(backendUrl, session.credentials);
+   return send();
+}
@@ -0,0 +1,147 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { parseTorrentFile } from "@/lib/torrent-parser";
+
+// NOTE: The fixtures are of made-up files in 16 KiB pieces, and their expected hashes were worked out apart from the parser.
+
+const readFixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}.torrent`, import.meta.url));
+
+const PADDING_FILE = "_____padding_file_0_if you see this file, please update to BitComet 0.85 or above____";
+const A_ROOT = "d1edfb4122decdd778237e83cd5516666c36518001017451384a91458a033bf4";
+const B_ROOT = "f5c1d3ccb71efbb5d250871e4919b386317cb8f9f233972caf3ae9b7630afc66";
+
+describe("parseTorrentFile", () => {
+   it("parses a v1 single-file torrent", () => {
+      const metadata = parseTorrentFile(readFixture("v1-single"));
+      expect(metadata).toMatchObject({
+         source: "torrent",
+         version: "v1",
+         hash: "ca2f3d2264da782a32ce74dfef0bb2912bdffbbd",
+         v1Hash: "ca2f3d2264da782a32ce74dfef0bb2912bdffbbd",
+         v2Hash: null,
+         name: "hello.txt",
+         pieceLength: 16384,
+         pieces: 3,
+         length: 40000,
+         files: [{ path: ["hello.txt"], length: 40000 }],
+         fileTree: { "hello.txt": { path: ["hello.txt"], length: 40000, pieces: 3 } },
+         private: false,
+         createdBy: "TorrentView fixtures",
+         creationDate: "2024-01-01T00:00:00.000Z",
+         comment: "v1 single-file",
+         announce: ["udp://tracker.example.org:1337/announce"],
+         trackers: [["udp://tracker.example.org:1337/announce"]],
+         webSeeds: ["https://seed.example.org/hello.txt"],
+         httpSeeds: [],
+      });
+   });
+
+   it("parses a v1 multi-file torrent, with its padding, attributes and checksums", () => {
+      const metadata = parseTorrentFile(readFixture("v1-multi"));
+      expect(metadata).toMatchObject({
+         version: "v1",
+         hash: "5388859bd059d52a86d20fcae77dc4fb343ac702",
+         v1Hash: "5388859bd059d52a86d20fcae77dc4fb343ac702",
+         v2Hash: null,
+         name: "multi",
+         pieces: 2,
+         length: 3000,
+         private: true,
+         announce: ["https://tracker.example.org/announce", "udp://backup.example.org:6969", "https://tier2.example.org/announce"],
+         trackers: [
+            ["https://tracker.example.org/announce", "udp://backup.example.org:6969"],
+            ["https://tier2.example.org/announce"],
+         ],
+         webSeeds: [],
+         httpSeeds: ["https://httpseed.example.org/seed"],
+      });
+      expect(metadata.files).toEqual([
+         { path: ["x.bin"], length: 1000, executable: true, md5: "4d1ad10310836fc0137fa0dc535df1df" },
+         { path: [PADDING_FILE], length: 15384, padding: true },
+         { path: ["sub", "y.bin"], length: 2000, sha1: "0de0bab76e89d805add5ebfc6f8229223d1ec0c9" },
+      ]);
+      expect(metadata.fileTree).toEqual({
+         "x.bin": { path: ["x.bin"], length: 1000, executable: true, md5: "4d1ad10310836fc0137fa0dc535df1df", pieces: 1 },
+         "sub": {
+            "y.bin": { path: ["sub", "y.bin"], length: 2000, sha1: "0de0bab76e89d805add5ebfc6f8229223d1ec0c9", pieces: 1 },
+         },
+      });
+   });
+
+   it("parses a v2 torrent, counting the pieces per file", () => {
+      const metadata = parseTorrentFile(readFixture("v2"));
+      expect(metadata).toMatchObject({
+         version: "v2",
+         hash: "90a302d269e1e4ae2368a3ddba67a032490011479b47319331921bea013350f2",
+         v1Hash: null,
+         v2Hash: "90a302d269e1e4ae2368a3ddba67a032490011479b47319331921bea013350f2",
+         name: "v2",
+         pieces: 3,
+         length: 20100,
+      });
+      expect(metadata.files).toEqual([
+         { path: ["a.txt"], length: 20000, piecesRoot: A_ROOT },
+         { path: ["dir", "b.txt"], length: 100, piecesRoot: B_ROOT },
+         { path: ["empty"], length: 0, piecesRoot: null },
+      ]);
+      expect(metadata.fileTree).toEqual({
+         "a.txt": { path: ["a.txt"], length: 20000, pieces: 2, piecesRoot: A_ROOT },
+         "dir": { "b.txt": { path: ["dir", "b.txt"], length: 100, pieces: 1, piecesRoot: B_ROOT } },
+         "empty": { path: ["empty"], length: 0, pieces: 0, piecesRoot: null },
+      });
+   });
+
+   it("parses a hybrid torrent, with the v1 files and their v2 pieces roots", () => {
+      const metadata = parseTorrentFile(readFixture("hybrid"));
+      expect(metadata).toMatchObject({
+         version: "hybrid",
+         hash: "7adf82502095bb729a344c1ba3ea10d3a699f985",
+         v1Hash: "7adf82502095bb729a344c1ba3ea10d3a699f985",
+         v2Hash: "469566fcafc3e099c566822ac5516ee465e4b17c6279d32604a51ef791508754",
+         name: "hybrid",
+         pieces: 3,
+         length: 20100,
+      });
+      expect(metadata.files).toEqual([
+         { path: ["a.txt"], length: 20000, piecesRoot: A_ROOT },
+         { path: [".pad", "12768"], length: 12768, padding: true },
+         { path: ["dir", "b.txt"], length: 100, piecesRoot: B_ROOT },
+      ]);
+   });
+
+   it("gives the files of v1 and v2 file trees the same shape", () => {
+      const getLeaves = (tree: Record<string, any>): Record<string, any>[] =>
+         Object.values(tree).flatMap(node => (node.length !== undefined ? [node] : getLeaves(node)));
+      for (const name of ["v1-single", "v1-multi", "v2", "hybrid"]) {
+         const { files, fileTree } = parseTorrentFile(readFixture(name));
+         const leaves = getLeaves(fileTree);
+         expect(leaves.map(({ pieces, ...file }) => file)).toEqual(files.filter(file => !file.padding));
+         for (const leaf of leaves) expect(leaf.pieces).toBe(Math.ceil(leaf.length / 16384));
+      }
+   });
+
+   it("gives the same metadata for the same bytes", () => {
+      expect(parseTorrentFile(readFixture("hybrid"), "magnet")).toEqual({
+         ...parseTorrentFile(readFixture("hybrid")),
+         source: "magnet",
+      });
+   });
+
+   it("rejects a piece layer without a hash per piece", () => {
+      const torrentFile = readFixture("v2");
+      // Cut the piece layer of a.txt, which has 2 pieces, to 1 hash.
+      const start = torrentFile.indexOf("64:", torrentFile.indexOf("12:piece layers"));
+      const layer = torrentFile.subarray(start + 3, start + 3 + 32);
+      const broken = Buffer.concat([
+         torrentFile.subarray(0, start),
+         Buffer.from("32:"),
+         layer,
+         torrentFile.subarray(start + 3 + 64),
+      ]);
+      expect(() => parseTorrentFile(broken)).toThrow("Invalid piece layer for a.txt");
+   });
+
+   it("rejects a torrent without an info dictionary", () => {
+      expect(() => parseTorrentFile(Buffer.from("d8:announce3:urle"))).toThrow('Missing "info" dictionary in torrent');
+   });
+});
@@ -0,0 +1,253 @@
+import bencode from "bencode";
+import { createHash } from "crypto";
+import type { TorrentFileInfo, TorrentMetadata } from "@/lib/types";
+
+// Parses .torrent files, as per BEP 3 and BEP 52, without any networking so that the same bytes always give the same metadata.
+
+const decoder = new TextDecoder("utf-8");
+
+/**
+ * @param value - a bencoded string, which decodes to bytes
+ * @returns the string, or null if missing
+ */
+const toUtf8 = (value: unknown): string | null =>
+   value instanceof Uint8Array ? decoder.decode(value) : value === undefined || value === null ? null : String(value);
+
+/**
+ * @param value - a bencoded string or list of them
+ * @returns the non-empty strings
+ */
+const toUrls = (value: unknown): string[] =>
+   (Array.isArray(value) ? value : [value]).map(toUtf8).filter((url): url is string => !!url);
+
+/**
+ * @param file - a v1 files entry, the info dictionary of a single-file torrent, or a v2 file tree leaf
+ * @param path - of the file
+ * @returns the file, with its BEP 47 attributes and optional checksums where it has any
+ */
+const getFileInfo = (file: Record<string, any>, path: string[]): TorrentFileInfo => {
+   const result: TorrentFileInfo = { path, length: file.length };
+   const attr = toUtf8(file.attr) ?? "";
+   // NOTE: Some older clients name their padding files rather than set the attribute.
+   if (attr.includes("p") || path[0] === ".pad" || path[path.length - 1].startsWith("_____padding_file_")) result.padding = true;
+   if (attr.includes("x")) result.executable = true;
+   if (attr.includes("h")) result.hidden = true;
+   const symlink = file["symlink path"];
+   if (attr.includes("l") && Array.isArray(symlink)) result.symlink = symlink.map(part => toUtf8(part) ?? "");
+   const md5 = toUtf8(file.md5sum);
+   if (md5) result.md5 = md5.toLowerCase();
+   if (file.sha1 instanceof Uint8Array) result.sha1 = Buffer.from(file.sha1).toString("hex");
+   return result;
+};
+
+/**
+ * @param data - bencoded, and well-formed
+ * @param start - of a value
+ * @returns the end of the value, ie where the next one starts
+ */
+const skipValue = (data: Buffer, start: number): number => {
+   let i = start;
+   switch (data[i]) {
+      case 0x69: // i<integer>e
+         return data.indexOf(0x65, i) + 1;
+      case 0x64: // d<key><value>...e
+      case 0x6c: // l<value>...e
+         for (++i; data[i] !== 0x65; i = skipValue(data, i));
+         return i + 1;
+      default: {
+         // <length>:<bytes>
+         const colon = data.indexOf(0x3a, i);
+         return colon + 1 + Number(data.toString("ascii", i, colon));
+      }
+   }
+};
+
+/**
+ * Finds the info dictionary's bytes as they are in the file, which the info hashes are of, since decoding and encoding it again
+ * needn't give back the same bytes, eg for keys that aren't valid UTF-8 or a dictionary that isn't sorted.
+ * @param torrentFile - which must have decoded fine already
+ * @returns the bencoded info dictionary, or null if there's none
+ */
+const getRawInfo = (torrentFile: Buffer): Buffer | null => {
+   for (let i = 1; torrentFile[i] !== 0x65 && i < torrentFile.length; ) {
+      const keyEnd = skipValue(torrentFile, i);
+      const valueEnd = skipValue(torrentFile, keyEnd);
+      if (torrentFile.toString("latin1", torrentFile.indexOf(0x3a, i) + 1, keyEnd) === "info")
+         return torrentFile.subarray(keyEnd, valueEnd);
+      i = valueEnd;
+   }
+   return null;
+};
+
+/**
+ * @param torrent - the decoded .torrent file
+ * @returns the piece layers, as per BEP 52, by the hex of their files' pieces root, or null if the file has none, eg when it was
+ * resolved from a magnet link, which only gets the info dictionary
+ */
+const getPieceLayers = (torrent: Record<string, any>): Map<string, Uint8Array> | null => {
+   const layers = torrent["piece layers"];
+   if (!layers || typeof layers !== "object") return null;
+   // NOTE: bencode decodes the keys as text, or as hex when they aren't valid UTF-8, which the 32-byte roots mostly aren't.
+   const toHex = (key: string) => (key.length === 64 ? key : Buffer.from(key).toString("hex"));
+   return new Map(Object.entries(layers).map(([key, layer]) => [toHex(key), layer as Uint8Array]));
+};
+
+/**
+ * Builds the nested file tree of a v2 torrent, with each file as per getFileInfo plus its number of pieces and pieces root.
+ * @param tree - the info dictionary's file tree
+ * @param pieceLength - of the torrent
+ * @param layers - as per getPieceLayers, to check the files' piece counts against
+ * @param path - of the tree's folder
+ * @throws Error if a file's piece layer doesn't have a hash per piece
+ */
+const buildV2FileTree = (
+   tree: Record<string, any>,
+   pieceLength: number,
+   layers: Map<string, Uint8Array> | null,
+   path: string[] = [],
+): Record<string, any> => {
+   const result: Record<string, any> = {};
+   for (const [key, value] of Object.entries(tree)) {
+      const currentPath = [...path, key];
+      if (value[""] !== undefined) {
+         // Leaf: file, whose pieces root is the root of the merkle tree of its 16 KiB blocks, and absent if it's empty.
+         const { length } = value[""];
+         const root = value[""]["pieces root"];
+         const pieces = Math.ceil(length / pieceLength);
+         const piecesRoot = root instanceof Uint8Array ? Buffer.from(root).toString("hex") : null;
+         // NOTE: Files of no more than a piece have no piece layer, their pieces root being the hash of their only piece.
+         const layer = piecesRoot && pieces > 1 ? layers?.get(piecesRoot) : undefined;
+         if (layer && layer.length !== pieces * 32) throw new Error(`Invalid piece layer for ${currentPath.join("/")}`);
+         result[key] = { ...getFileInfo(value[""], currentPath), pieces, piecesRoot };
+      } else {
+         // Directory
+         result[key] = buildV2FileTree(value, pieceLength, layers, currentPath);
+      }
+   }
+   return result;
+};
+
+/**
+ * @param tree - as per buildV2FileTree
+ * @param basePath - of the tree's folder
+ * @returns the tree's files, depth first
+ */
+const flattenV2FileTree = (tree: Record<string, any>, basePath: string[] = []): TorrentFileInfo[] => {
+   let files: TorrentFileInfo[] = [];
+   for (const [name, node] of Object.entries(tree)) {
+      const currentPath = [...basePath, name];
+      if (node.length !== undefined) {
+         const { pieces, ...file } = node;
+         files.push(file);
+      } else {
+         files = files.concat(flattenV2FileTree(node, currentPath));
+      }
+   }
+   return files;
+};
+
+/**
+ * Builds the nested file tree of a v1 torrent, like that of a v2 one, with each file as per getFileInfo plus the number of pieces
+ * that it spans, which it may share with the files either side.
+ * @param files - in order, padding and all, to add up their offsets by
+ * @param pieceLength - of the torrent
+ */
+const buildV1FileTree = (files: TorrentFileInfo[], pieceLength: number): Record<string, any> => {
+   const tree: Record<string, any> = {};
+   let offset = 0;
+   for (const file of files) {
+      const start = offset;
+      offset += file.length;
+      // NOTE: Padding files aren't the user's, so leave them out of the tree, as v2 file trees do.
+      if (file.padding) continue;
+      let current: Record<string, any> = tree;
+      for (let i = 0; i < file.path.length - 1; i++) {
+         const dir = file.path[i];
+         current[dir] = current[dir] || {};
+         current = current[dir];
+      }
+      const pieces = file.length ? Math.floor((start + file.length - 1) / pieceLength) - Math.floor(start / pieceLength) + 1 : 0;
+      current[file.path[file.path.length - 1]] = { ...file, pieces };
+   }
+   return tree;
+};
+
+/**
+ * @param torrent - the decoded .torrent file
+ * @returns the tracker URLs by tier, from the announce-list if any, as per BEP 12, else the announce as the only tier
+ */
+const getTrackers = (torrent: Record<string, any>): string[][] => {
+   const tiers = Array.isArray(torrent["announce-list"]) ? torrent["announce-list"].map(toUrls) : [toUrls(torrent.announce)];
+   return tiers.filter(tier => tier.length);
+};
+
+/**
+ * Parses a .torrent file.
+ * @param torrentFile - the .torrent file's contents
+ * @param source - where the .torrent file came from, ie a magnet link that was resolved or else a .torrent file as such
+ * @returns the metadata, with the v1 and v2 hashes, files, size, trackers, web seeds, etc
+ * @throws Error if the file doesn't decode, has no info dictionary or has invalid piece layers
+ */
+export function parseTorrentFile(torrentFile: Buffer, source: TorrentMetadata["source"] = "torrent"): TorrentMetadata {
+   const torrent = bencode.decode(torrentFile) as Record<string, any>;
+   const info = torrent?.info;
+   const rawInfo = getRawInfo(torrentFile);
+   if (!info || typeof info !== "object" || !rawInfo) throw new Error('Missing "info" dictionary in torrent');
+
+   // Work out the version, as per BEP 52: hybrid torrents have both the v1 pieces and the v2 file tree, of the same files.
+   const isV2 = info["meta version"] === 2 && !!info["file tree"];
+   const isV1 = !!info.pieces;
+   if (!isV1 && !isV2) throw new Error(`Unsupported torrent meta version ${info["meta version"]}`);
+   const version = isV1 && isV2 ? "hybrid" : isV2 ? "v2" : "v1";
+
+   // Compute hashes, both of the info dictionary as is.
+   const v1Hash = isV1 ? createHash("sha1").update(rawInfo).digest("hex") : null;
+   const v2Hash = isV2 ? createHash("sha256").update(rawInfo).digest("hex") : null;
+
+   // Parse files, from the v1 files if any, which hybrid torrents pad so that each file starts a piece as in v2.
+   const name = toUtf8(info["name.utf-8"] ?? info.name);
+   const pieceLength: number = info["piece length"];
+   const v2FileTree = isV2 ? buildV2FileTree(info["file tree"], pieceLength, getPieceLayers(torrent)) : null;
+   let files: TorrentFileInfo[];
+   if (!isV1) {
+      // v2 file tree
+      files = flattenV2FileTree(v2FileTree!);
+   } else if (info.files) {
+      // Multi-file v1
+      files = info.files.map((file: any) => getFileInfo(file, (file["path.utf-8"] ?? file.path).map(toUtf8)));
+   } else {
+      // Single-file v1
+      files = [getFileInfo(info, [name ?? "Unknown"])];
+   }
+   if (isV1 && v2FileTree) {
+      // Hybrid: the same files, bar the padding, so take their pieces roots from the v2 file tree.
+      const roots = new Map(flattenV2FileTree(v2FileTree).map(file => [file.path.join("/"), file.piecesRoot ?? null]));
+      files = files.map(file => (file.padding ? file : { ...file, piecesRoot: roots.get(file.path.join("/")) ?? null }));
+   }
+   const fileTree = v2FileTree ?? buildV1FileTree(files, pieceLength);
+   const trackers = getTrackers(torrent);
+
+   const creationDate = torrent["creation date"];
+   return {
+      source,
+      hash: v1Hash ?? v2Hash, // Default to v1 for compatibility.
+      v1Hash,
+      v2Hash,
+      version,
+      name,
+      pieceLength,
+      // NOTE: v2 pieces don't span files, so count them per file when there are no v1 pieces.
+      pieces: isV1 ? info.pieces.length / 20 : files.reduce((sum, file) => sum + Math.ceil(file.length / pieceLength), 0),
+      length: files.reduce((sum, file) => sum + (file.padding ? 0 : file.length), 0),
+      files,
+      fileTree,
+      private: info.private === 1,
+      createdBy: toUtf8(torrent["created by"]),
+      creationDate: typeof creationDate === "number" ? new Date(creationDate * 1000).toISOString() : null,
+      comment: toUtf8(torrent["comment.utf-8"] ?? torrent.comment),
+      announce: Array.from(new Set(trackers.flat())),
+      trackers,
+      webSeeds: toUrls(torrent["url-list"]),
+      httpSeeds: toUrls(torrent.httpseeds),
+   };
+}
@@ -0,0 +1,39 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { parseTorrentFile } from "@/lib/torrent-parser";
+import { getFilePieces, getPieceRange } from "@/lib/torrents";
+
+// NOTE: The hybrid fixture pads a.txt, of 20000 bytes, to 2 pieces of 16 KiB, so that dir/b.txt starts the third piece.
+const padded = parseTorrentFile(readFileSync(new URL("./__fixtures__/hybrid.torrent", import.meta.url)));
+const expected = [
+   { name: "a.txt", pieces: [0, 1] },
+   { name: "dir/b.txt", pieces: [2, 2] },
+];
+
+describe("getPieceRange", () => {
+   it("gives the first and last piece of a file", () => {
+      expect(getPieceRange(0, 16384, 16384)).toEqual([0, 0]);
+      expect(getPieceRange(16000, 1000, 16384)).toEqual([0, 1]);
+      expect(getPieceRange(32768, 0, 16384)).toEqual([2, 2]);
+   });
+});
+
+describe("getFilePieces", () => {
+   it("takes the backend's piece ranges, which allow for the padding files that it doesn't list", () => {
+      // As qbittorrent lists the files of the padded torrent, whose sizes alone would put dir/b.txt in the second piece.
+      const files = [
+         { name: "a.txt", size: 20000, piece_range: [0, 1] as [number, number] },
+         { name: "dir/b.txt", size: 100, piece_range: [2, 2] as [number, number] },
+      ];
+      expect(getFilePieces(files, 16384)).toEqual(expected);
+   });
+
+   it("adds up the sizes of the metadata's files, padding and all, and then leaves the padding out", () => {
+      const files = padded.files.map(file => ({ name: file.path.join("/"), size: file.length, padding: file.padding }));
+      expect(getFilePieces(files, padded.pieceLength!)).toEqual(expected);
+   });
+
+   it("leaves out the files without a piece range if the piece length is unknown", () => {
+      expect(getFilePieces([{ name: "a.txt", size: 20000 }], 0)).toEqual([]);
+   });
+});
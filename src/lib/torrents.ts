@@ -0,0 +1,147 @@
+import type { TorrentInfo } from "@/lib/qbittorrent-types";
+import type { Torrent, TorrentStatus } from "@/lib/types";
+
+const regexResolution = /(\d{3,4})p/i;
+const regexSeries = /(S\d{1,2}(E\d{1,2})?|\d{4}(?:[-./\s]?\d{2}){2})(.*complete)?/i;
+const regexSize = /\b\d+(?:\.\d+)?\s*(?:KiB|MiB|GiB|TiB)/;
+
+// qbittorrent reports an unknown ETA as 100 days.
+export const ETA_INFINITY = 8640000;
+
+export const formatSize = (size: number): string => {
+   if (size > 1099511627776) {
+      return `${(size / 1099511627776).toFixed(2)} TiB`;
+   } else if (size > 1073741824) {
+      return `${(size / 1073741824).toFixed(2)} GiB`;
+   } else if (size > 1048576) {
+      return `${(size / 1048576).toFixed(2)} MiB`;
+   } else if (size > 1024) {
+      return `${(size / 1024).toFixed(2)} KiB`;
+   }
+   return `${size} B`;
+};
+
+export const getBytes = (size: string): number | null => {
+   const multiplier =
+      size.indexOf("GiB") != -1
+         ? 1073741824
+         : size.indexOf("MiB") != -1
+           ? 1048576
+           : size.indexOf("KiB") != -1
+             ? 1024
+             : size.indexOf("TiB") != -1
+               ? 1099511627776
+               : 1;
+   return Math.ceil(parseFloat(size) * multiplier);
+};
+
+export const getResolution = (name: string): number | null => {
+   const matched = name.match(regexResolution);
+   return matched ? parseInt(matched[1], 10) : null;
+};
+
+export const getSeries = (name: string): string | null => {
+   const matched = name.match(regexSeries);
+   return matched ? matched[1] : null;
+};
+
+export const getSize = (name: string): string => {
+   const matched = name.match(regexSize);
+   return matched ? matched[0] : "?";
+};
+
+/**
+ * Maps qbittorrent's torrent states onto the handful of statuses that the UI distinguishes.
+ * @param state - as per the state field of /api/v2/torrents/info
+ * @returns the UI status
+ */
+export const getStatus = (state: TorrentInfo["state"] | undefined): TorrentStatus => {
+   switch (state) {
+      case "error":
+      case "missingFiles":
+         return "error";
+      case "uploading":
+      case "stalledUP":
+      case "forcedUP":
+      case "queuedUP":
+      case "checkingUP":
+         return "seeding";
+      case "pausedUP":
+      case "stoppedUP":
+         return "completed";
+      case "pausedDL":
+      case "stoppedDL":
+         return "paused";
+      case "unknown":
+         return "error";
+      default:
+         return "downloading";
+   }
+};
+
+/**
+ * Converts a qbittorrent torrent, as per /api/v2/torrents/info or /api/v2/sync/maindata, into a Torrent for the table.
+ * @param hash - the torrent's hash, which maindata only provides as the key
+ * @param info - the torrent's fields
+ * @returns the Torrent
+ */
+export const fromTorrentInfo = (hash: string, info: Partial<TorrentInfo>): Torrent => {
+   const name = info.name ?? hash;
+   const series = getSeries(name);
+   const resolution = getResolution(name);
+   return {
+      added_on: info.added_on ?? 0,
+      bytes: info.size ?? null,
+      category: info.category ?? "",
+      dlspeed: info.dlspeed ?? 0,
+      eta: info.eta == null || info.eta >= ETA_INFINITY ? -1 : info.eta,
+      feed: "",
+      hash: hash,
+      id: hash,
+      infohash_v1: info.infohash_v1,
+      infohash_v2: info.infohash_v2,
+      is_read: false, // NOTE: Only feed articles are read or unread.
+      is_series: series != null,
+      metadata: null,
+      name: name,
+      priority: Math.max(info.priority ?? 0, 0), // NOTE: qbittorrent reports -1 when queueing is disabled.
+      progress: info.progress ?? 0,
+      ratio: info.ratio ?? 0,
+      resolution: resolution,
+      series: series,
+      size: info.size != null ? formatSize(info.size) : "?",
+      status: getStatus(info.state),
+      upspeed: info.upspeed ?? 0,
+   };
+};
+
+/**
+ * @param offset - of the file, in bytes from the start of the torrent
+ * @param size - of the file
+ * @param pieceLength
+ * @returns the first and last piece of the file, as per qbittorrent's piece_range
+ */
+export const getPieceRange = (offset: number, size: number, pieceLength: number): [number, number] => [
+   Math.floor(offset / pieceLength),
+   Math.floor((offset + Math.max(size - 1, 0)) / pieceLength),
+];
+
+/**
+ * Works out the pieces of each file for the piece map, from the backend's piece ranges if it has them, since backends such as
+ * qbittorrent don't list the padding files, else by adding up the files' sizes.
+ * @param files - in the torrent's order, and with the padding files, marked as such, when they have no piece ranges
+ * @param pieceLength - to add up the sizes by, or 0 if unknown
+ * @returns the files bar the padding, with their first and last piece, leaving out those without a piece range if the piece
+ * length is unknown
+ */
+export const getFilePieces = (
+   files: Array<{ name: string; size: number; padding?: boolean; piece_range?: [number, number] }>,
+   pieceLength: number,
+): Array<{ name: string; pieces: [number, number] }> => {
+   let offset = 0;
+   return files.flatMap(file => {
+      const pieces = file.piece_range ?? (pieceLength ? getPieceRange(offset, file.size, pieceLength) : null);
+      offset += file.size;
+      return file.padding || !pieces ? [] : [{ name: file.name, pieces }];
+   });
+};
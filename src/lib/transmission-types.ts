@@ -0,0 +1,174 @@
+// Types for the Transmission RPC, as per https://github.com/transmission/transmission/blob/main/docs/rpc-spec.md
+
+export enum TransmissionStatus {
+   Stopped = 0,
+   CheckWait = 1,
+   Check = 2,
+   DownloadWait = 3,
+   Download = 4,
+   SeedWait = 5,
+   Seed = 6,
+}
+
+export enum TransmissionPriority {
+   Low = -1,
+   Normal = 0,
+   High = 1,
+}
+
+export type TorrentIds = number | string | Array<number | string> | "recently-active";
+
+export type TransmissionFile = {
+   beginPiece?: number; // since Transmission 4.0
+   bytesCompleted: number;
+   endPiece?: number; // since Transmission 4.0, and exclusive
+   length: number;
+   name: string;
+};
+
+export type TransmissionFileStats = {
+   bytesCompleted: number;
+   priority: TransmissionPriority;
+   wanted: boolean;
+};
+
+export enum TrackerState {
+   Inactive = 0,
+   Waiting = 1,
+   Queued = 2,
+   Active = 3,
+}
+
+export type TransmissionPeer = {
+   address: string;
+   clientName: string;
+   flagStr: string;
+   isUTP: boolean;
+   port: number;
+   progress: number; // 0-1
+   rateToClient: number; // bytes/s
+   rateToPeer: number; // bytes/s
+};
+
+export type TransmissionTrackerStats = {
+   announce: string;
+   announceState: TrackerState;
+   downloadCount: number; // -1 if unknown
+   hasAnnounced: boolean;
+   lastAnnouncePeerCount: number;
+   lastAnnounceResult: string;
+   lastAnnounceSucceeded: boolean;
+   leecherCount: number; // -1 if unknown
+   nextAnnounceTime: number; // timestamp
+   seederCount: number; // -1 if unknown
+   tier: number;
+};
+
+export type TransmissionTorrent = {
+   activityDate: number;
+   addedDate: number; // timestamp
+   comment: string;
+   corruptEver: number; // bytes
+   creator: string;
+   dateCreated: number; // timestamp, or 0 if unknown
+   doneDate: number; // timestamp, or 0 if not done
+   downloadDir: string;
+   downloadedEver: number; // bytes
+   downloadLimit: number; // kB/s
+   downloadLimited: boolean;
+   error: number; // 0 for ok, 1 for a tracker warning, 2 for a tracker error and 3 for a local error
+   errorString: string;
+   eta: number; // seconds, or -1 if unavailable and -2 if unknown
+   files: TransmissionFile[];
+   fileStats: TransmissionFileStats[];
+   hashString: string;
+   haveValid: number; // bytes
+   id: number;
+   isFinished: boolean;
+   isPrivate: boolean;
+   labels: string[];
+   name: string;
+   peers: TransmissionPeer[];
+   peersConnected: number;
+   peersGettingFromUs: number;
+   peersSendingToUs: number;
+   percentDone: number; // 0-1
+   pieceCount: number;
+   pieces: string; // base64-encoded bitfield of the pieces that are done, most significant bit first
+   pieceSize: number;
+   queuePosition: number;
+   rateDownload: number; // bytes/s
+   rateUpload: number; // bytes/s
+   secondsDownloading: number;
+   secondsSeeding: number;
+   sequential_download: boolean; // since Transmission 4.1
+   status: TransmissionStatus;
+   totalSize: number;
+   trackerStats: TransmissionTrackerStats[];
+   uploadedEver: number; // bytes
+   uploadLimit: number; // kB/s
+   uploadLimited: boolean;
+   uploadRatio: number;
+   webseeds: string[];
+};
+
+export type TransmissionTorrentField = keyof TransmissionTorrent;
+
+export type TorrentGetResult = {
+   removed?: number[]; // only when asking for the recently-active torrents
+   torrents: Partial<TransmissionTorrent>[];
+};
+
+export type TorrentAddArguments = {
+   "bandwidthPriority"?: TransmissionPriority;
+   "cookies"?: string;
+   "download-dir"?: string;
+   "filename"?: string; // URL or magnet link
+   "files-unwanted"?: number[];
+   "files-wanted"?: number[];
+   "labels"?: string[];
+   "metainfo"?: string; // base64-encoded .torrent
+   "paused"?: boolean;
+   "peer-limit"?: number;
+   "priority-high"?: number[];
+   "priority-low"?: number[];
+   "priority-normal"?: number[];
+   "sequential_download"?: boolean; // since Transmission 4.1
+};
+
+export type AddedTorrent = {
+   hashString: string;
+   id: number;
+   name: string;
+};
+
+export type TorrentAddResult = {
+   "torrent-added"?: AddedTorrent;
+   "torrent-duplicate"?: AddedTorrent;
+};
+
+export type TorrentSetArguments = {
+   "files-unwanted"?: number[];
+   "files-wanted"?: number[];
+   "ids": TorrentIds;
+   "labels"?: string[];
+   "priority-high"?: number[];
+   "priority-low"?: number[];
+   "priority-normal"?: number[];
+   "queuePosition"?: number;
+   "sequential_download"?: boolean;
+   "trackerAdd"?: string[]; // NOTE: Deprecated in favour of trackerList since Transmission 4.0, yet still supported.
+};
+
+export type SessionInfo = {
+   "download-dir": string;
+   "rpc-version": number;
+   "rpc-version-minimum": number;
+   "version": string;
+};
+
+export type RpcResponse<T> = {
+   arguments: T;
+   result: string; // "success" or an error message
+   tag?: number;
+};
@@ -0,0 +1,168 @@
+import type {
+   RpcResponse,
+   SessionInfo,
+   TorrentAddArguments,
+   TorrentAddResult,
+   TorrentGetResult,
+   TorrentIds,
+   TorrentSetArguments,
+   TransmissionTorrentField,
+} from "@/lib/transmission-types";
+
+type Credentials = {
+   username: string;
+   password: string;
+};
+
+type Session = {
+   credentials: Credentials | null;
+   sessionId: string | null;
+};
+
+const HEADER_SESSION_ID = "X-Transmission-Session-Id";
+
+// NOTE: Stash the sessions on globalThis so that they survive hot reloads and are shared by every route bundle.
+const globalForSessions = globalThis as unknown as { transmissionSessions?: Map<string, Session> };
+const sessions = (globalForSessions.transmissionSessions ??= new Map<string, Session>());
+
+const getSession = (backendUrl: string): Session => {
+   let session = sessions.get(backendUrl);
+   if (!session) {
+      session = { credentials: null, sessionId: null };
+      sessions.set(backendUrl, session);
+   }
+   return session;
+};
+
+/**
+ * The single error type thrown by TransmissionClient, which mirrors QBittorrentError so that routes can report failures consistently.
+ */
+export class TransmissionError extends Error {
+   /**
+    * @param message - human readable description of the failure
+    * @param endpoint - the RPC method that failed, eg torrent-add
+    * @param status - HTTP status returned by the backend, or 0 if the backend couldn't be reached
+    */
+   constructor(
+      message: string,
+      readonly endpoint: string,
+      readonly status: number,
+      options?: ErrorOptions,
+   ) {
+      super(message, options);
+      this.name = "TransmissionError";
+   }
+
+   toJSON() {
+      return { error: this.message, endpoint: this.endpoint, status: this.status };
+   }
+}
+
+/**
+ * Typed client for the Transmission RPC that handles the session id handshake and basic authentication, so it is server-side only.
+ */
+export class TransmissionClient {
+   /**
+    * @param backendUrl - base URL of the Transmission web interface, eg http://localhost:9091/transmission
+    */
+   constructor(readonly backendUrl: string) {}
+
+   private async call<T>(method: string, args: object = {}): Promise<T> {
+      const session = getSession(this.backendUrl);
+      const url = `${this.backendUrl}/rpc`;
+
+      const send = () => {
+         const headers = new Headers({ "Content-Type": "application/json" });
+         if (session.sessionId) headers.set(HEADER_SESSION_ID, session.sessionId);
+         if (session.credentials) {
+            const { username, password } = session.credentials;
+            headers.set("Authorization", `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`);
+         }
+         return fetch(url, { body: JSON.stringify({ method, arguments: args }), headers, method: "POST" });
+      };
+
+      let response: Response;
+      try {
+         response = await send();
+         if (response.status === 409) {
+            // Transmission's CSRF protection: the first request, or the first after a restart, is answered with the session id to use.
+            session.sessionId = response.headers.get(HEADER_SESSION_ID);
+            response = await send();
+         }
+      } catch (e: any) {
+         throw new TransmissionError(`Failed to reach ${this.backendUrl}: ${e.message}`, method, 0, { cause: e });
+      }
+
+      if (response.status === 401) throw new TransmissionError(`Invalid username or password for ${this.backendUrl}`, method, 401);
+      if (!response.ok) throw new TransmissionError(`${method} failed with HTTP ${response.status}`, method, response.status);
+
+      let body: RpcResponse<T>;
+      try {
+         body = await response.json();
+      } catch (e: any) {
+         throw new TransmissionError(`${method} returned malformed JSON`, method, response.status, { cause: e });
+      }
+      if (body.result !== "success") throw new TransmissionError(`${method} failed: ${body.result}`, method, response.status);
+
+      return body.arguments;
+   }
+
+   readonly auth = {
+      /**
+       * Transmission has no login as such, so remember the credentials and check them with a harmless call.
+       */
+      login: async (username: string, password: string): Promise<void> => {
+         const session = getSession(this.backendUrl);
+         const previous = session.credentials;
+         session.credentials = { username, password };
+         try {
+            await this.session.get();
+         } catch (e) {
+            session.credentials = previous;
+            throw e;
+         }
+      },
+      configure: (credentials: Credentials): void => {
+         getSession(this.backendUrl).credentials = credentials;
+      },
+      logout: (): void => {
+         sessions.delete(this.backendUrl);
+      },
+   };
+
+   readonly session = {
+      get: () =>
+         this.call<SessionInfo>("session-get", { fields: ["download-dir", "rpc-version", "rpc-version-minimum", "version"] }),
+   };
+
+   readonly torrents = {
+      get: (fields: TransmissionTorrentField[], ids?: TorrentIds) => this.call<TorrentGetResult>("torrent-get", { fields, ids }),
+      add: async (args: TorrentAddArguments) => {
+         const result = await this.call<TorrentAddResult>("torrent-add", args);
+         const added = result["torrent-added"] ?? result["torrent-duplicate"];
+         if (!added) throw new TransmissionError("torrent-add didn't return the torrent", "torrent-add", 200);
+         return { ...added, isDuplicate: !result["torrent-added"] };
+      },
+      set: (args: TorrentSetArguments) => this.call<void>("torrent-set", args),
+      start: (ids: TorrentIds) => this.call<void>("torrent-start", { ids }),
+      startNow: (ids: TorrentIds) => this.call<void>("torrent-start-now", { ids }),
+      stop: (ids: TorrentIds) => this.call<void>("torrent-stop", { ids }),
+      verify: (ids: TorrentIds) => this.call<void>("torrent-verify", { ids }),
+      reannounce: (ids: TorrentIds) => this.call<void>("torrent-reannounce", { ids }),
+      /**
+       * @param path - of the file or folder, including the torrent's folder if it has one
+       * @param name - the new name of the last part of the path
+       */
+      renamePath: (id: number | string, path: string, name: string) =>
+         this.call<void>("torrent-rename-path", { ids: [id], path, name }),
+      remove: (ids: TorrentIds, deleteLocalData = false) =>
+         this.call<void>("torrent-remove", { ids, "delete-local-data": deleteLocalData }),
+   };
+
+   readonly queue = {
+      moveTop: (ids: TorrentIds) => this.call<void>("queue-move-top", { ids }),
+      moveUp: (ids: TorrentIds) => this.call<void>("queue-move-up", { ids }),
+      moveDown: (ids: TorrentIds) => this.call<void>("queue-move-down", { ids }),
+      moveBottom: (ids: TorrentIds) => this.call<void>("queue-move-bottom", { ids }),
+   };
+}
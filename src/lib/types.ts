@@ -1,3 +1,5 @@
+import type { TorrentPeer, TorrentProperties, TorrentTracker, TorrentWebseed } from "@/lib/qbittorrent-types";
+
 export type Article = {
    category: string;
    contentLength: string;
@@ -15,6 +17,31 @@ export type Article = {
    verified: string;
 };
 
+export type Backend = {
+   credentials: BackendCredentials | null; // entered in the settings, if not configured on the server
+   hasCredentials: boolean; // whether the server is configured with credentials for the backend
+   id: string;
+   name: string;
+   type: BackendType;
+   url: string;
+};
+
+export type BackendCredentials = {
+   username: string;
+   password: string;
+};
+
+export type BackendType = "deluge" | "qbittorrent" | "transmission";
+
+/**
+ * A torrent that a backend already has, with one of the info hashes of the one being added, eg the same release from another feed.
+ */
+export type DuplicateTorrent = {
+   hash: string;
+   name: string;
+   trackers: string[]; // the new torrent's trackers that the existing one lacks, to merge into it rather than add it again
+};
+
 export type Feed = {
    articles: Article[];
    hasError: boolean;
@@ -27,18 +54,24 @@ export type Feed = {
 
 export type Torrent = {
    added_on: number; // timestamp
+   article?: Article; // the feed article, as is, for the feed articles
+   backend?: string; // Backend.id, stamped on by the client when merging the backends' torrents
    bytes: number | null;
    category: string;
    dlspeed: number; // bytes/s
    eta: number; // seconds
    feed: string;
+   file?: string; // the base64-encoded .torrent file, if uploaded rather than at the URL in hash
    files?: TorrentFile[];
    hash: string;
    id: string;
+   infohash_v1?: string; // "" if the transfer has none, ie is v2-only, as per qbittorrent; the other backends don't report them
+   infohash_v2?: string; // the whole of it, unlike the hash of a v2-only transfer, which is only its first 40 digits
    is_read: boolean;
    is_series: boolean;
    metadata: TorrentMetadata | null;
    name: string;
+   priority?: number; // the position in the backend's queue, from 1, or 0 if not queued
    progress: number; // 0-1
    ratio: number;
    resolution: number | null;
@@ -48,12 +81,39 @@ export type Torrent = {
    upspeed: number; // bytes/s
 };
 
+// The actions on transfers, named after the qbittorrent endpoints that /api/v2/torrents/[action] mirrors.
+export type TorrentAction =
+   | "bottomPrio"
+   | "decreasePrio"
+   | "delete"
+   | "increasePrio"
+   | "reannounce"
+   | "recheck"
+   | "setForceStart"
+   | "start"
+   | "stop"
+   | "topPrio";
+
 export type TorrentFile = {
    name: string;
    size: number;
    progress: number;
+   piece_range?: [number, number]; // the first and last piece of the file, if the backend says, which allows for padding files
+};
+
+/**
+ * What the details panel shows of a transfer, shaped after the qbittorrent endpoints of the same names whatever the backend.
+ */
+export type TorrentDetails = {
+   files: TorrentFile[];
+   peers: TorrentPeer[];
+   properties: TorrentProperties;
+   trackers: TorrentTracker[];
+   webseeds: TorrentWebseed[];
 };
 
+export type TorrentView = "articles" | "transfers";
+
 export type TorrentStatus = "available" | "completed" | "downloading" | "error" | "paused" | "seeding";
 
 export type SortConfig = {
@@ -64,6 +124,14 @@ export type SortConfig = {
 export type TorrentFileInfo = {
    path: string[];
    length: number;
+   piecesRoot?: string | null; // the hex of the v2 merkle root, or null for an empty file
+   // The BEP 47 attributes, only set when they apply, and the optional checksums, in hex.
+   executable?: boolean;
+   hidden?: boolean;
+   padding?: boolean; // filler that aligns the next file to a piece, which the backends don't download
+   symlink?: string[]; // the target's path, within the torrent
+   md5?: string;
+   sha1?: string;
 };
 
 export type TorrentMetadata = {
@@ -72,14 +140,38 @@ export type TorrentMetadata = {
    createdBy: string | null;
    creationDate: string | null;
    files: TorrentFileInfo[];
-   fileTree: Record<string, any>;
+   fileTree: Record<string, any>; // the files by folder, bar the padding, each as per files plus the number of pieces it spans
    hash: string | null;
+   httpSeeds?: string[]; // as per BEP 17
    length: number | null;
    name: string | null;
    pieceLength?: number;
    pieces?: number;
    private: boolean | null;
    source: "magnet" | "torrent";
+   trackers?: string[][]; // the announce URLs by tier, as per BEP 12
    v1Hash: string | null;
    v2Hash: string | null;
+   version?: "hybrid" | "v1" | "v2"; // as per BEP 52
+   webSeeds?: string[]; // as per BEP 19
 };
+
+/**
+ * How far resolving a magnet link got, as streamed by /api/metadata.
+ */
+export type MetadataProgress = {
+   connected: number; // peers
+   elapsed: number; // ms
+   peers: Record<string, number>; // discovered, by source, ie dht, tracker, lsd or ut_pex
+   received: number; // bytes of the metadata, from the peer that sent the most
+   size: number | null; // bytes of the metadata, once a peer told
+   timeout: number; // ms
+};
+
+/**
+ * The events that /api/metadata streams, ending with either the metadata or an error.
+ */
+export type MetadataEvent =
+   | { type: "progress"; data: MetadataProgress }
+   | { type: "metadata"; data: TorrentMetadata; from: "disk" | "memory" | "source" }
+   | { type: "error"; message: string };
@@ -1,10 +1,37 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Backend, Torrent } from "@/lib/types";
 
 export function cn(...inputs: ClassValue[]) {
    return twMerge(clsx(inputs));
 }
 
+/**
+ * Identifies a row in the merged table since the same torrent, or feed article, can come from several backends.
+ */
+export function getTorrentKey(torrent: Torrent) {
+   return `${torrent.backend ?? ""}/${torrent.hash}`;
+}
+
+/**
+ * Only qbittorrent has an RSS reader, so the other backends don't have any feed articles.
+ */
+export function hasRss(backend: Pick<Backend, "type">) {
+   return backend.type === "qbittorrent";
+}
+
+/**
+ * Turns the error body of /api/v2/torrents/add into something for a toast, saying which step failed and whether the torrent was
+ * removed again, eg when setting its files failed after adding it.
+ */
+export async function getAddTorrentError(response: Response): Promise<string> {
+   const body = await response.json().catch(() => ({}));
+   const error = [body.message, body.error].filter(Boolean).join(": ") || `HTTP ${response.status}`;
+   if (!body.step || body.step === "add") return error;
+   const outcome = body.rolledBack ? "so the torrent was removed again" : "and the torrent couldn't be removed";
+   return `${error} (at the ${body.step} step, ${outcome})`;
+}
+
 export function formatBytes(bytes: number, decimals = 2) {
    if (bytes === 0) return "0 Bytes";
    const k = 1024;